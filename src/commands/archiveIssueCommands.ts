@@ -0,0 +1,132 @@
+/**
+ * Archive commands - archive issues instead of deleting them, and restore them later
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+import { runIssueHooks } from './issueHooks';
+
+export async function archiveIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to archive');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Archive issue ${issue.id}?`,
+      {
+        modal: true,
+        detail: 'Worktrees and workspace files are removed. Branches, pull request links and issue details are kept so the issue can be restored.'
+      },
+      'Archive'
+    );
+    if (confirm !== 'Archive') {
+      return;
+    }
+
+    // Branches are kept, so only uncommitted changes would be lost
+    const audits = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Checking ${issue.id} for uncommitted changes...`,
+        cancellable: false
+      },
+      () => issueService.auditIssue(project.id, issue.id)
+    );
+
+    const risks = audits.flatMap(audit => issueService.describeAuditRisks(audit, false));
+    if (risks.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${issue.id} has uncommitted changes that archiving would lose`,
+        { modal: true, detail: risks.map(risk => `- ${risk}`).join('\n') },
+        'Archive Anyway'
+      );
+      if (choice !== 'Archive Anyway') {
+        return;
+      }
+    }
+
+    // Pre-delete hooks run while the worktrees still exist (e.g., stop containers)
+    const hooksCompleted = await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'pre_delete', {
+      stopChoice: 'Cancel Archive',
+      stopDetail: 'Cancel Archive keeps the issue.'
+    });
+    if (!hooksCompleted) {
+      vscode.window.showInformationMessage(`Archiving of ${issue.id} cancelled`);
+      return;
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Archiving ${issue.id}...`,
+        cancellable: false
+      },
+      () => issueService.archiveIssue(project.id, issue.id, { force: true })
+    );
+
+    onSuccess();
+    vscode.window.showInformationMessage(`Issue ${issue.id} archived (branches kept)`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to archive issue: ${error}`);
+  }
+}
+
+export async function restoreIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an archived issue to restore', true);
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+
+    const restored = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Restoring ${issue.id}...`,
+        cancellable: false
+      },
+      () => issueService.restoreIssue(project.id, issue.id)
+    );
+
+    onSuccess();
+
+    // The worktrees and issue directory are recreated, so all post-create hooks run again
+    await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'post_create', {
+      stopChoice: 'Skip Remaining Hooks',
+      stopDetail: 'The issue stays restored either way.'
+    });
+
+    const skipped = issue.repos.length - restored.repos.length;
+    const action = await vscode.window.showInformationMessage(
+      `Issue ${issue.id} restored${skipped > 0 ? ` (${skipped} repos no longer in the project were dropped)` : ''}`,
+      'Open Workspace'
+    );
+    if (action === 'Open Workspace') {
+      vscode.commands.executeCommand('mrm.openWorkspace', { issue: restored, project });
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to restore issue: ${error}`);
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Base ref selection for issue creation - remote branches, tags and other issues' branches
+ */
+
+import * as vscode from 'vscode';
+import { GitService } from '../services/gitService';
+import { StateManager } from '../services/stateManager';
+import { BaseRef, Project, Repository } from '../models/types';
+
+export interface PickedBases {
+  base?: BaseRef; // Same starting point for all repos
+  repoBases?: Record<string, BaseRef>; // Starting point per repo name
+}
+
+interface RepoRefs {
+  branches: string[];
+  tags: string[];
+}
+
+interface IssueBranch {
+  issueId: string;
+  branches: Map<string, string>; // repo.name -> branch
+}
+
+type BaseItem = vscode.QuickPickItem & { base?: BaseRef; issue?: IssueBranch };
+
+/**
+ * Ask for the starting point of the issue branches
+ * Returns {} for the project default branch, undefined when cancelled
+ */
+export async function pickIssueBases(
+  project: Project,
+  repositories: Repository[],
+  stateManager: StateManager
+): Promise<PickedBases | undefined> {
+  const defaultBranches = [...new Set(repositories.map(r => r.default_branch || 'main'))];
+
+  const modes = [
+    { label: '$(home) Default branch', description: defaultBranches.join(', '), mode: 'default' },
+    {
+      label: repositories.length > 1 ? '$(git-branch) Same base for all repositories' : '$(git-branch) Choose branch or tag',
+      description: 'Release branch, tag or another issue\'s branch',
+      mode: 'all'
+    },
+    ...(repositories.length > 1
+      ? [{ label: '$(list-flat) Base per repository', description: '', mode: 'perRepo' }]
+      : [])
+  ];
+
+  const mode = await vscode.window.showQuickPick(modes, { placeHolder: 'Select where the issue branches start from' });
+  if (!mode) {
+    return undefined;
+  }
+
+  if (mode.mode === 'default') {
+    return {};
+  }
+
+  const gitService = new GitService();
+  const refs: Map<string, RepoRefs> = new Map();
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Fetching branches and tags...',
+      cancellable: false
+    },
+    async () => {
+      await Promise.all(repositories.map(async repo => {
+        try {
+          refs.set(repo.name, await gitService.listBaseRefs(repo.path, repo.remote || 'origin'));
+        } catch (error) {
+          console.warn(`Failed to list refs of ${repo.name}: ${error}`);
+          refs.set(repo.name, { branches: [], tags: [] });
+        }
+      }));
+    }
+  );
+
+  const issueBranches = getIssueBranches(project, stateManager);
+
+  if (mode.mode === 'all') {
+    // Only offer refs every selected repository has
+    const all = repositories.map(r => refs.get(r.name) as RepoRefs);
+    const common: RepoRefs = {
+      branches: all[0].branches.filter(b => all.every(r => r.branches.includes(b))),
+      tags: all[0].tags.filter(t => all.every(r => r.tags.includes(t)))
+    };
+    const issues = issueBranches.filter(i => repositories.some(r => i.branches.has(r.name)));
+
+    const selected = await vscode.window.showQuickPick(
+      buildItems(common, issues, repositories),
+      { placeHolder: 'Select base branch or tag for all repositories', matchOnDescription: true }
+    );
+    if (!selected) {
+      return undefined;
+    }
+
+    if (selected.issue) {
+      // Stack on another issue: repos outside that issue start from their default branch
+      return { repoBases: toIssueBases(selected.issue, repositories) };
+    }
+
+    return { base: selected.base };
+  }
+
+  const repoBases: Record<string, BaseRef> = {};
+
+  for (const repo of repositories) {
+    const issues = issueBranches.filter(i => i.branches.has(repo.name));
+    const selected = await vscode.window.showQuickPick(
+      buildItems(refs.get(repo.name) as RepoRefs, issues, [repo]),
+      { placeHolder: `Select base branch or tag for ${repo.name}`, matchOnDescription: true }
+    );
+    if (!selected) {
+      return undefined;
+    }
+
+    if (selected.issue) {
+      Object.assign(repoBases, toIssueBases(selected.issue, [repo]));
+    } else if (selected.base) {
+      repoBases[repo.name] = selected.base;
+    }
+  }
+
+  return { repoBases };
+}
+
+/**
+ * Branches of the open issues of a project
+ */
+function getIssueBranches(project: Project, stateManager: StateManager): IssueBranch[] {
+  return stateManager.loadIssues(project.id)
+    .filter(issue => issue.status === 'active' || issue.status === 'pr_created')
+    .map(issue => ({
+      issueId: issue.id,
+      branches: new Map(issue.repos.map(r => [r.name, r.branch]))
+    }));
+}
+
+function toIssueBases(issue: IssueBranch, repositories: Repository[]): Record<string, BaseRef> {
+  const bases: Record<string, BaseRef> = {};
+  for (const repo of repositories) {
+    const branch = issue.branches.get(repo.name);
+    if (branch) {
+      bases[repo.name] = { kind: 'local', name: branch };
+    }
+  }
+  return bases;
+}
+
+function buildItems(refs: RepoRefs, issues: IssueBranch[], repositories: Repository[]): BaseItem[] {
+  const defaultBranches = [...new Set(repositories.map(r => r.default_branch || 'main'))];
+
+  const items: BaseItem[] = [
+    { label: '$(home) Default branch', description: defaultBranches.join(', ') }
+  ];
+
+  if (issues.length > 0) {
+    items.push({ label: 'Issues', kind: vscode.QuickPickItemKind.Separator });
+    for (const issue of issues) {
+      items.push({
+        label: `$(issues) ${issue.issueId}`,
+        description: [...new Set(issue.branches.values())].join(', '),
+        detail: `Stack on ${[...issue.branches.keys()].join(', ')}`,
+        issue
+      });
+    }
+  }
+
+  if (refs.branches.length > 0) {
+    items.push({ label: 'Remote branches', kind: vscode.QuickPickItemKind.Separator });
+    for (const name of refs.branches) {
+      items.push({ label: `$(git-branch) ${name}`, base: { kind: 'branch', name } });
+    }
+  }
+
+  if (refs.tags.length > 0) {
+    items.push({ label: 'Tags', kind: vscode.QuickPickItemKind.Separator });
+    for (const name of refs.tags) {
+      items.push({ label: `$(tag) ${name}`, base: { kind: 'tag', name } });
+    }
+  }
+
+  return items;
+}
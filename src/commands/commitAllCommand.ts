@@ -0,0 +1,181 @@
+/**
+ * Commit All / Push All commands - one commit message and one push across an issue's worktrees
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { CommitService } from '../services/commitService';
+import { FileChange, PushOutcome } from '../models/types';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+const PUSH_LABELS: Record<PushOutcome, string> = {
+  pushed: '✓ pushed',
+  up_to_date: '✓ up to date',
+  skipped: '– skipped',
+  failed: '✗ failed'
+};
+
+type FileItem = vscode.QuickPickItem & { repoName?: string; file?: FileChange };
+
+export async function commitAllCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to commit');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    const commitService = new CommitService(configManager, stateManager);
+
+    const changes = await commitService.getChanges(project.id, issue.id);
+    if (changes.length === 0) {
+      vscode.window.showInformationMessage(`No changes to commit in ${issue.id}`);
+      return;
+    }
+
+    // Dirty files grouped by repo, all preselected
+    const items: FileItem[] = [];
+    for (const repoChanges of changes) {
+      items.push({ label: repoChanges.repoName, kind: vscode.QuickPickItemKind.Separator });
+      for (const file of repoChanges.files) {
+        items.push({
+          label: file.path,
+          description: file.from ? `${file.status} ← ${file.from}` : file.status,
+          picked: true,
+          repoName: repoChanges.repoName,
+          file
+        });
+      }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select files to commit in ${issue.id}`,
+      canPickMany: true,
+      matchOnDescription: true
+    });
+
+    if (!selected || selected.length === 0) {
+      return;
+    }
+
+    const selections: Map<string, FileChange[]> = new Map();
+    for (const fileItem of selected) {
+      if (fileItem.repoName && fileItem.file) {
+        const files = selections.get(fileItem.repoName) || [];
+        files.push(fileItem.file);
+        selections.set(fileItem.repoName, files);
+      }
+    }
+
+    const prefix = `${issue.id}: `;
+    const message = await vscode.window.showInputBox({
+      prompt: `Commit message for ${[...selections.keys()].join(', ')}`,
+      value: prefix,
+      valueSelection: [prefix.length, prefix.length],
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0 || value.trim() === prefix.trim()) {
+          return 'Commit message is required';
+        }
+        return null;
+      }
+    });
+
+    if (!message) {
+      return;
+    }
+
+    const results = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Committing ${issue.id}...`,
+        cancellable: false
+      },
+      async () => commitService.commitAll(project.id, issue.id, selections, message.trim())
+    );
+
+    onSuccess();
+
+    const failed = results.filter(r => r.error);
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some repositories of ${issue.id} could not be committed`,
+        { modal: true, detail: results.map(r => `${r.repoName}: ${r.commit || r.error}`).join('\n') }
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Committed ${results.map(r => `${r.repoName} (${r.commit})`).join(', ')}`,
+      'Push All'
+    );
+
+    if (choice === 'Push All') {
+      await pushAllCommand({ issue, project }, configManager, stateManager, onSuccess);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to commit: ${error}`);
+  }
+}
+
+export async function pushAllCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to push');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    const commitService = new CommitService(configManager, stateManager);
+    // Invoked on a repo (tree node or issue detail panel): push only that repo
+    const repoNames: string[] | undefined = item?.repoName ? [item.repoName] : undefined;
+
+    const push = (options: { force?: boolean; repoNames?: string[] }) => vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Pushing ${issue.id}...`,
+        cancellable: false
+      },
+      async (progress) => commitService.pushAll(project.id, issue.id, options, message => progress.report({ message }))
+    );
+
+    let results = await push({ repoNames });
+    onSuccess();
+
+    // Diverged branches (e.g., after a rebase) can be pushed with --force-with-lease
+    const diverged = results.filter(r => r.diverged);
+    if (diverged.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${diverged.map(r => r.repoName).join(', ')} diverged from the remote branch`,
+        { modal: true, detail: 'Local and remote branches both have commits the other lacks (e.g., after a rebase). Force push with lease? Remote-only commits will be discarded.' },
+        'Force Push with Lease'
+      );
+
+      if (choice === 'Force Push with Lease') {
+        const retried = await push({ force: true, repoNames: diverged.map(r => r.repoName) });
+        results = results.map(r => retried.find(retry => retry.repoName === r.repoName) || r);
+        onSuccess();
+      }
+    }
+
+    const summary = results.map(r => `${r.repoName}: ${PUSH_LABELS[r.outcome]}${r.message ? ` - ${r.message}` : ''}`);
+
+    if (results.some(r => r.outcome === 'failed')) {
+      vscode.window.showWarningMessage(`Push of ${issue.id} finished with errors`, { modal: true, detail: summary.join('\n') });
+    } else {
+      vscode.window.showInformationMessage(`Pushed ${issue.id}: ${results.map(r => `${r.repoName} ${PUSH_LABELS[r.outcome]}`).join(', ')}`);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to push: ${error}`);
+  }
+}
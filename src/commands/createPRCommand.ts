@@ -0,0 +1,186 @@
+/**
+ * Create PR command - push branches and open pull requests for every repo of an issue
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { GitHubService } from '../services/githubService';
+import { PRService } from '../services/prService';
+import { ChangesetService } from '../services/changesetService';
+import { GeminiProvider } from '../services/modelProvider';
+import { PRDescriptionService, formatDrafts, parseDrafts } from '../services/prDescriptionService';
+import { Issue, PRDraft } from '../models/types';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+export async function createPRCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  secrets: vscode.SecretStorage,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(
+      item,
+      configManager,
+      stateManager,
+      'Select an issue to create pull requests for'
+    );
+
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    const projectId = project.id;
+
+    // Ready for review or draft
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: '$(git-pull-request) Ready for Review', draft: false },
+        { label: '$(git-pull-request-draft) Draft', draft: true }
+      ],
+      { placeHolder: `Create pull requests for ${issue.id} (${issue.repos.length} repos)` }
+    );
+
+    if (!mode) {
+      return;
+    }
+
+    // Title/description source
+    let drafts: Record<string, PRDraft> | undefined;
+
+    if (configManager.getConfig().gemini?.enabled) {
+      const source = await vscode.window.showQuickPick(
+        [
+          { label: '$(note) Use Issue Title & Description', generate: false },
+          { label: '$(sparkle) Generate with AI', description: 'Review drafts in an editor before submitting', generate: true }
+        ],
+        { placeHolder: 'Pull request title and description' }
+      );
+
+      if (!source) {
+        return;
+      }
+
+      if (source.generate) {
+        drafts = await generateAndReviewDrafts(projectId, issue, configManager, stateManager, secrets);
+        if (!drafts) {
+          return;
+        }
+      }
+    }
+
+    const githubService = await GitHubService.create(configManager.getConfig());
+    const prService = new PRService(configManager, stateManager, githubService);
+
+    const results = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Creating pull requests for ${issue.id}...`,
+        cancellable: false
+      },
+      async (progress) => prService.createPullRequests(
+        projectId,
+        issue.id,
+        { draft: mode.draft, drafts },
+        (message) => progress.report({ message })
+      )
+    );
+
+    onSuccess();
+
+    const lines = results.map(r => r.pullRequest
+      ? `${r.repoName}: PR#${r.pullRequest.number}${r.created ? '' : ' (existing)'}`
+      : `${r.repoName}: failed - ${r.error}`
+    );
+    const failed = results.filter(r => r.error);
+
+    if (failed.length > 0) {
+      vscode.window.showWarningMessage(
+        `Pull requests for ${issue.id} completed with ${failed.length} ${failed.length === 1 ? 'error' : 'errors'}`,
+        { modal: true, detail: lines.join('\n') }
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Pull requests for ${issue.id}: ${lines.join(', ')}`,
+      'Open in Browser'
+    );
+
+    if (choice === 'Open in Browser') {
+      for (const result of results) {
+        if (result.pullRequest) {
+          await vscode.env.openExternal(vscode.Uri.parse(result.pullRequest.url));
+        }
+      }
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to create pull requests: ${error}`);
+  }
+}
+
+/**
+ * Generate PR drafts with AI, open them in an editor and wait for confirmation
+ * Returns undefined if cancelled
+ */
+async function generateAndReviewDrafts(
+  projectId: string,
+  issue: Issue,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  secrets: vscode.SecretStorage
+): Promise<Record<string, PRDraft> | undefined> {
+  const modelProvider = await GeminiProvider.create(configManager.getConfig(), secrets);
+  if (!modelProvider) {
+    return undefined;
+  }
+
+  const changesetService = new ChangesetService(configManager, stateManager);
+  const descriptionService = new PRDescriptionService(modelProvider);
+
+  const drafts = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Generating pull request descriptions for ${issue.id}...`,
+      cancellable: false
+    },
+    async (progress) => {
+      progress.report({ message: 'Collecting commits and diffs...' });
+      const changesets = await changesetService.collectChangeset(projectId, issue.id);
+
+      progress.report({ message: `Waiting for ${modelProvider.name}...` });
+      return descriptionService.generateDrafts(issue, changesets);
+    }
+  );
+
+  if (Object.keys(drafts).length === 0) {
+    const choice = await vscode.window.showWarningMessage(
+      'No changes found to describe. Use the issue title and description instead?',
+      'Continue',
+      'Cancel'
+    );
+    return choice === 'Continue' ? {} : undefined;
+  }
+
+  // Review in editor
+  const doc = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content: formatDrafts(drafts)
+  });
+  await vscode.window.showTextDocument(doc);
+
+  const choice = await vscode.window.showInformationMessage(
+    `Edit the drafts for ${issue.id} in the editor, then submit.`,
+    'Create Pull Requests',
+    'Cancel'
+  );
+
+  if (choice !== 'Create Pull Requests') {
+    return undefined;
+  }
+
+  return parseDrafts(doc.getText());
+}
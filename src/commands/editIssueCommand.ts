@@ -0,0 +1,105 @@
+/**
+ * Edit Issue command - change title, description, labels, assignee, tracker URL and notes
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { Issue, IssueMetadata } from '../models/types';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+type MetadataField = keyof IssueMetadata;
+
+const FIELD_LABELS: Record<MetadataField, string> = {
+  title: 'Title',
+  description: 'Description',
+  labels: 'Labels',
+  assignee: 'Assignee',
+  trackerUrl: 'Tracker URL',
+  notes: 'Notes'
+};
+
+export async function editIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to edit');
+    if (!picked) {
+      return;
+    }
+
+    const { project } = picked;
+    let issue: Issue = picked.issue;
+
+    // Edit one field at a time until the picker is dismissed; each change is saved immediately
+    for (;;) {
+      const fieldItems = (Object.keys(FIELD_LABELS) as MetadataField[]).map(field => ({
+        label: FIELD_LABELS[field],
+        description: formatValue(issue, field) || '(empty)',
+        field
+      }));
+
+      const selected = await vscode.window.showQuickPick(fieldItems, {
+        placeHolder: `Edit ${issue.id} - select a field (Esc when done)`
+      });
+
+      if (!selected) {
+        return;
+      }
+
+      const value = await vscode.window.showInputBox({
+        prompt: getPrompt(selected.field),
+        value: formatValue(issue, selected.field),
+        validateInput: (input) => {
+          if (selected.field === 'trackerUrl' && input.trim() && !/^https?:\/\/\S+$/.test(input.trim())) {
+            return 'Enter an http(s) URL or leave empty';
+          }
+          return null;
+        }
+      });
+
+      if (value === undefined) {
+        continue;
+      }
+
+      const metadata: IssueMetadata = selected.field === 'labels'
+        ? { labels: value.split(',') }
+        : { [selected.field]: selected.field === 'notes' ? value.replace(/\\n/g, '\n') : value };
+
+      issue = await issueService.updateIssueMetadata(project.id, issue.id, metadata);
+      onSuccess();
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to edit issue: ${error}`);
+  }
+}
+
+function formatValue(issue: Issue, field: MetadataField): string {
+  switch (field) {
+    case 'labels':
+      return (issue.labels || []).join(', ');
+    case 'notes':
+      // Input boxes are single-line; newlines are shown as \n
+      return (issue.notes || '').replace(/\n/g, '\\n');
+    default:
+      return issue[field] || '';
+  }
+}
+
+function getPrompt(field: MetadataField): string {
+  switch (field) {
+    case 'labels':
+      return 'Labels (comma-separated, empty to clear)';
+    case 'notes':
+      return 'Notes (use \\n for line breaks; the issue detail panel has a multi-line editor)';
+    case 'trackerUrl':
+      return 'GitHub issue or Jira ticket URL (empty to clear)';
+    default:
+      return `${FIELD_LABELS[field]} (empty to clear)`;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Edit Issue Repositories command - add or remove repositories of an existing issue
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+import { runIssueHooks } from './issueHooks';
+
+export async function editIssueReposCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to edit repositories for');
+    if (!picked) {
+      return;
+    }
+
+    const { issue } = picked;
+    const project = configManager.loadProject(picked.project.id);
+    if (!project) {
+      vscode.window.showErrorMessage(`Project not found: ${picked.project.id}`);
+      return;
+    }
+
+    const currentRepos = new Set(issue.repos.map(r => r.name));
+
+    const selected = await vscode.window.showQuickPick(
+      project.repositories.map(r => ({
+        label: r.name,
+        description: currentRepos.has(r.name) ? 'in issue' : r.path,
+        picked: currentRepos.has(r.name)
+      })),
+      {
+        placeHolder: `Repositories for ${issue.id} (uncheck to remove, check to add)`,
+        canPickMany: true
+      }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    if (selected.length === 0) {
+      vscode.window.showErrorMessage('An issue must keep at least one repository');
+      return;
+    }
+
+    const selectedNames = new Set(selected.map(s => s.label));
+    const toAdd = project.repositories.map(r => r.name).filter(name => selectedNames.has(name) && !currentRepos.has(name));
+    const toRemove = issue.repos.map(r => r.name).filter(name => !selectedNames.has(name));
+
+    if (toAdd.length === 0 && toRemove.length === 0) {
+      return;
+    }
+
+    // Confirm removal
+    let deleteBranches = false;
+    if (toRemove.length > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `Remove ${toRemove.join(', ')} from ${issue.id}?`,
+        { modal: true, detail: 'This will remove the worktrees of these repositories.' },
+        'Remove (Keep Branches)',
+        'Remove (Delete Branches)'
+      );
+
+      if (!choice) {
+        return;
+      }
+      deleteBranches = choice === 'Remove (Delete Branches)';
+
+      // Audit repos being removed for unsaved work
+      const audits = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Checking ${toRemove.join(', ')} for unsaved work...`,
+          cancellable: false
+        },
+        () => issueService.auditIssue(project.id, issue.id)
+      );
+
+      const report = audits
+        .filter(audit => toRemove.includes(audit.repoName))
+        .map(audit => ({ repoName: audit.repoName, risks: issueService.describeAuditRisks(audit, deleteBranches) }))
+        .filter(entry => entry.risks.length > 0)
+        .map(entry => `${entry.repoName}:\n${entry.risks.map(risk => `  - ${risk}`).join('\n')}`);
+
+      if (report.length > 0) {
+        const override = await vscode.window.showWarningMessage(
+          'Some repositories have unsaved work',
+          { modal: true, detail: report.join('\n\n') },
+          'Remove Anyway'
+        );
+
+        if (override !== 'Remove Anyway') {
+          return;
+        }
+      }
+
+      // Pre-delete hooks of the removed repos run while their worktrees still exist
+      const hooksCompleted = await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'pre_delete', {
+        repoNames: toRemove,
+        stopChoice: 'Cancel',
+        stopDetail: 'Cancel keeps the repositories in the issue.'
+      });
+      if (!hooksCompleted) {
+        return;
+      }
+    }
+
+    const failures: string[] = [];
+    const added: string[] = [];
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Updating repositories of ${issue.id}...`,
+        cancellable: false
+      },
+      async (progress) => {
+        for (const repoName of toAdd) {
+          progress.report({ message: `Adding ${repoName}...` });
+          try {
+            await issueService.addRepoToIssue(project.id, issue.id, repoName);
+            added.push(repoName);
+          } catch (error) {
+            failures.push(`${repoName}: ${error}`);
+          }
+        }
+
+        for (const repoName of toRemove) {
+          progress.report({ message: `Removing ${repoName}...` });
+          try {
+            await issueService.removeRepoFromIssue(project.id, issue.id, repoName, { deleteBranches, force: true });
+          } catch (error) {
+            failures.push(`${repoName}: ${error}`);
+          }
+        }
+      }
+    );
+
+    onSuccess();
+
+    if (added.length > 0) {
+      await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'post_create', {
+        repoNames: added,
+        stopChoice: 'Skip Remaining Hooks',
+        stopDetail: 'The added repositories are kept either way.'
+      });
+    }
+
+    if (failures.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some repositories of ${issue.id} could not be updated`,
+        { modal: true, detail: failures.join('\n') }
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Repositories of ${issue.id} updated` +
+      (toAdd.length > 0 ? ` (added: ${toAdd.join(', ')})` : '') +
+      (toRemove.length > 0 ? ` (removed: ${toRemove.join(', ')})` : '')
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to edit issue repositories: ${error}`);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Issue hooks for commands - progress notification, output channel and the choice after a failed step
+ */
+
+import * as vscode from 'vscode';
+import { IssueService } from '../services/issueService';
+import { HookEvent } from '../models/types';
+
+const EVENT_NAMES: Record<HookEvent, string> = {
+  post_create: 'post-create',
+  pre_delete: 'pre-delete'
+};
+
+export interface IssueHookOptions {
+  repoNames?: string[]; // Run only these repositories' hooks (worktrees added or removed)
+  stopChoice?: string; // Failure dialog choice that stops (default: Roll Back / Cancel Delete)
+  stopDetail?: string; // What the stop choice does
+}
+
+/**
+ * Run the hooks of an event; returns false if the user chose to stop after a failure
+ * (roll back a created issue, or cancel a deletion)
+ * Dismissing the failure dialog takes the non-destructive choice
+ */
+export async function runIssueHooks(
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  projectId: string,
+  issueId: string,
+  event: HookEvent,
+  options: IssueHookOptions = {}
+): Promise<boolean> {
+  const { repoNames } = options;
+  if (!issueService.hasHooks(projectId, event, repoNames)) {
+    return true;
+  }
+
+  const stopChoice = options.stopChoice || (event === 'post_create' ? 'Roll Back' : 'Cancel Delete');
+  const stopDetail = options.stopDetail || (event === 'post_create'
+    ? 'Roll Back removes the issue, its worktrees and branches without commits.'
+    : 'Cancel Delete keeps the issue.');
+  const target = repoNames ? `${issueId} (${repoNames.join(', ')})` : issueId;
+
+  outputChannel.appendLine(`Running ${EVENT_NAMES[event]} hooks for ${target}`);
+
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Running ${EVENT_NAMES[event]} hooks for ${target}`,
+      cancellable: false
+    },
+    (progress) => issueService.runHooks(projectId, issueId, event, {
+      onProgress: (message) => progress.report({ message }),
+      onOutput: (text) => outputChannel.append(text),
+      onFailure: async (step, error) => {
+        outputChannel.show(true);
+
+        const choice = await vscode.window.showWarningMessage(
+          `Hook failed: ${step}`,
+          { modal: true, detail: `${error}\n\nSee the Multiroot Manager output for details. ${stopDetail}` },
+          'Continue',
+          stopChoice
+        );
+        return event === 'post_create' ? choice !== stopChoice : choice === 'Continue';
+      }
+    }, repoNames)
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared issue resolution for commands invoked from the tree or the Command Palette
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { Issue, Project } from '../models/types';
+
+/**
+ * Argument of issue commands: a tree item, an item passed by another command or the issue detail
+ * panel, or undefined when run from the Command Palette
+ */
+export interface IssueCommandItem {
+  issue?: Issue;
+  project?: Project;
+  repoName?: string; // Limit the command to one repository of the issue
+}
+
+export interface PickedIssue {
+  issue: Issue;
+  project: Project;
+}
+
+/**
+ * Get issue from tree item (context menu) or show a quick pick of all issues
+ * With archived, the quick pick lists archived issues instead
+ */
+export async function resolveIssue(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  placeHolder: string,
+  archived = false
+): Promise<PickedIssue | undefined> {
+  if (item && item.issue && item.project) {
+    return { issue: item.issue, project: item.project };
+  }
+
+  const issueItems: Array<{ label: string; description: string } & PickedIssue> = [];
+
+  for (const project of configManager.loadProjects()) {
+    const issues = archived ? stateManager.loadArchivedIssues(project.id) : stateManager.loadIssues(project.id);
+    for (const issue of issues) {
+      issueItems.push({
+        label: `${issue.id}${issue.title ? ` - ${issue.title}` : ''}`,
+        description: `${project.name} [${archived ? 'archived' : issue.status}]`,
+        issue,
+        project
+      });
+    }
+  }
+
+  if (issueItems.length === 0) {
+    vscode.window.showInformationMessage(archived ? 'No archived issues found' : 'No issues found');
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(issueItems, { placeHolder });
+  return selected ? { issue: selected.issue, project: selected.project } : undefined;
+}
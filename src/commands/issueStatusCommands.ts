@@ -0,0 +1,187 @@
+/**
+ * Issue status commands - close, reopen and mark merged
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+import { runIssueHooks } from './issueHooks';
+
+export async function closeIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to close');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    if (!issueService.canChangeStatus(issue.status, 'closed')) {
+      vscode.window.showInformationMessage(`${issue.id} cannot be closed (status: ${issue.status})`);
+      return;
+    }
+
+    const mode = await vscode.window.showQuickPick(
+      [
+        { label: 'Close', description: 'Keep worktrees', removeWorktrees: false },
+        { label: 'Close and Remove Worktrees', description: 'Branches are kept; reopen recreates the worktrees', removeWorktrees: true }
+      ],
+      { placeHolder: `Close ${issue.id}` }
+    );
+
+    if (!mode) {
+      return;
+    }
+
+    let force = false;
+    if (mode.removeWorktrees) {
+      const audits = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Checking ${issue.id} for uncommitted changes...`,
+          cancellable: false
+        },
+        () => issueService.auditIssue(project.id, issue.id)
+      );
+
+      const risks = audits.flatMap(audit => issueService.describeAuditRisks(audit, false));
+      if (risks.length > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `${issue.id} has uncommitted changes that removing the worktrees would lose`,
+          { modal: true, detail: risks.map(risk => `- ${risk}`).join('\n') },
+          'Close Without Removing Worktrees',
+          'Remove Anyway'
+        );
+
+        if (!choice) {
+          return;
+        }
+        if (choice === 'Close Without Removing Worktrees') {
+          mode.removeWorktrees = false;
+        }
+        force = choice === 'Remove Anyway';
+      }
+    }
+
+    // Pre-delete hooks run while the worktrees still exist; the issue directory is kept
+    if (mode.removeWorktrees) {
+      const hooksCompleted = await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'pre_delete', {
+        repoNames: issue.repos.map(r => r.name),
+        stopChoice: 'Cancel Close',
+        stopDetail: 'Cancel Close keeps the issue open with its worktrees.'
+      });
+      if (!hooksCompleted) {
+        return;
+      }
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Closing ${issue.id}...`,
+        cancellable: false
+      },
+      () => issueService.closeIssue(project.id, issue.id, { removeWorktrees: mode.removeWorktrees, force })
+    );
+
+    onSuccess();
+    vscode.window.showInformationMessage(
+      `Issue ${issue.id} closed${mode.removeWorktrees ? ' (worktrees removed, branches kept)' : ''}`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to close issue: ${error}`);
+  }
+}
+
+export async function reopenIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  outputChannel: vscode.OutputChannel,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to reopen');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    if (!issueService.canChangeStatus(issue.status, 'active')) {
+      vscode.window.showInformationMessage(`${issue.id} cannot be reopened (status: ${issue.status})`);
+      return;
+    }
+
+    if (issue.status === 'merged') {
+      const confirm = await vscode.window.showWarningMessage(
+        `Reopen merged issue ${issue.id}?`,
+        { modal: true, detail: 'The merged pull requests are unlinked so follow-up work gets new ones.' },
+        'Reopen'
+      );
+      if (confirm !== 'Reopen') {
+        return;
+      }
+    }
+
+    const recreated = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Reopening ${issue.id}...`,
+        cancellable: false
+      },
+      () => issueService.reopenIssue(project.id, issue.id)
+    );
+
+    onSuccess();
+
+    if (recreated.length > 0) {
+      await runIssueHooks(issueService, outputChannel, project.id, issue.id, 'post_create', {
+        repoNames: recreated,
+        stopChoice: 'Skip Remaining Hooks',
+        stopDetail: 'The issue stays reopened either way.'
+      });
+    }
+    vscode.window.showInformationMessage(
+      `Issue ${issue.id} reopened${recreated.length > 0 ? ` (worktrees recreated: ${recreated.join(', ')})` : ''}`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to reopen issue: ${error}`);
+  }
+}
+
+export async function markMergedCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to mark as merged');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    if (!issueService.canChangeStatus(issue.status, 'merged')) {
+      vscode.window.showInformationMessage(`${issue.id} cannot be marked as merged (status: ${issue.status})`);
+      return;
+    }
+
+    await issueService.changeIssueStatus(project.id, issue.id, 'merged');
+
+    onSuccess();
+    vscode.window.showInformationMessage(`Issue ${issue.id} marked as merged`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to mark issue as merged: ${error}`);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Projects tree view commands - filter by status, search, group and sort issues
+ */
+
+import * as vscode from 'vscode';
+import { ProjectTreeProvider, DEFAULT_VIEW_OPTIONS } from '../views/projectTreeProvider';
+import { IssueGroupBy, IssueSortBy, IssueStatus, IssueViewOptions } from '../models/types';
+
+type OnViewOptionsChange = (options: IssueViewOptions) => void;
+
+export async function filterIssuesCommand(
+  treeProvider: ProjectTreeProvider,
+  onChange: OnViewOptionsChange
+): Promise<void> {
+  const options = treeProvider.getViewOptions();
+  const statuses: Array<{ label: string; status: IssueStatus }> = [
+    { label: 'Active', status: 'active' },
+    { label: 'PR Created', status: 'pr_created' },
+    { label: 'Merged', status: 'merged' },
+    { label: 'Closed', status: 'closed' }
+  ];
+
+  const selected = await vscode.window.showQuickPick(
+    statuses.map(item => ({ ...item, picked: options.statuses.includes(item.status) })),
+    {
+      placeHolder: 'Show issues with status (none selected = all)',
+      canPickMany: true
+    }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  // Selecting every status is the same as no filter
+  options.statuses = selected.length === statuses.length ? [] : selected.map(item => item.status);
+  onChange(options);
+}
+
+export async function searchIssuesCommand(
+  treeProvider: ProjectTreeProvider,
+  onChange: OnViewOptionsChange
+): Promise<void> {
+  const options = treeProvider.getViewOptions();
+
+  const search = await vscode.window.showInputBox({
+    prompt: 'Search issues by ID, title or description (empty to clear)',
+    placeHolder: 'e.g., SHOP-123 or checkout',
+    value: options.search
+  });
+
+  if (search === undefined) {
+    return;
+  }
+
+  options.search = search.trim();
+  onChange(options);
+}
+
+export async function groupIssuesCommand(
+  treeProvider: ProjectTreeProvider,
+  onChange: OnViewOptionsChange
+): Promise<void> {
+  const options = treeProvider.getViewOptions();
+  const choices: Array<{ label: string; groupBy: IssueGroupBy }> = [
+    { label: 'No Grouping', groupBy: 'none' },
+    { label: 'Group by Status', groupBy: 'status' },
+    { label: 'Group by Created Date', groupBy: 'created' },
+    { label: 'Group by Updated Date', groupBy: 'updated' }
+  ];
+
+  const selected = await vscode.window.showQuickPick(
+    choices.map(choice => ({ ...choice, description: choice.groupBy === options.groupBy ? '(current)' : undefined })),
+    { placeHolder: 'Group issues' }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  options.groupBy = selected.groupBy;
+  onChange(options);
+}
+
+export async function sortIssuesCommand(
+  treeProvider: ProjectTreeProvider,
+  onChange: OnViewOptionsChange
+): Promise<void> {
+  const options = treeProvider.getViewOptions();
+  const choices: Array<{ label: string; sortBy: IssueSortBy }> = [
+    { label: 'File Order', sortBy: 'file' },
+    { label: 'Recently Updated', sortBy: 'updated' },
+    { label: 'Recently Created', sortBy: 'created' },
+    { label: 'Issue ID', sortBy: 'id' }
+  ];
+
+  const selected = await vscode.window.showQuickPick(
+    choices.map(choice => ({ ...choice, description: choice.sortBy === options.sortBy ? '(current)' : undefined })),
+    { placeHolder: 'Sort issues' }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  options.sortBy = selected.sortBy;
+  onChange(options);
+}
+
+export function clearIssueFilterCommand(
+  treeProvider: ProjectTreeProvider,
+  onChange: OnViewOptionsChange
+): void {
+  // Grouping and sorting are layout preferences, not filters; keep them
+  const { groupBy, sortBy } = treeProvider.getViewOptions();
+  onChange({ ...DEFAULT_VIEW_OPTIONS, groupBy, sortBy });
+}
@@ -0,0 +1,204 @@
+/**
+ * Regenerate Workspace command - rebuild .code-workspace and .claude.md files from the current
+ * project and issue state, with a diff preview before overwriting
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { Issue, Project, WorkspaceFileChange } from '../models/types';
+import { IssueCommandItem } from './issuePicker';
+
+export const PREVIEW_SCHEME = 'mrm-preview';
+
+// Diff editors opened at once; larger batches are summarized in the confirmation instead
+const MAX_PREVIEWS = 10;
+
+/**
+ * Read-only documents holding the generated content shown in diff previews
+ */
+export class WorkspacePreviewProvider implements vscode.TextDocumentContentProvider {
+  private contents = new Map<string, string>();
+  private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  set(filePath: string, content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: filePath });
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+}
+
+interface IssueChanges {
+  issue: Issue;
+  project: Project;
+  changes: WorkspaceFileChange[];
+}
+
+/**
+ * Returns true when the issue files are up to date afterwards (regenerated or already current)
+ */
+export async function regenerateWorkspaceCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  previewProvider: WorkspacePreviewProvider
+): Promise<boolean> {
+  try {
+    const targets = await resolveTargets(item, configManager, stateManager);
+    if (!targets) {
+      return false;
+    }
+
+    const pending: IssueChanges[] = [];
+    const failures: string[] = [];
+    for (const { issue, project } of targets) {
+      try {
+        const changes = issueService.previewWorkspaceFiles(project.id, issue.id);
+        if (changes.length > 0) {
+          pending.push({ issue, project, changes });
+        }
+      } catch (error) {
+        failures.push(`${issue.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (targets.length === 1 && failures.length > 0) {
+      throw new Error(failures[0]);
+    }
+
+    if (pending.length === 0) {
+      vscode.window.showInformationMessage(
+        `Workspace files are up to date${failures.length > 0 ? ` (${failures.length} issues skipped)` : ''}`
+      );
+      return failures.length === 0;
+    }
+
+    const files = pending.flatMap(({ issue, changes }) =>
+      changes.map(change => `- ${issue.id}: ${path.basename(change.filePath)} (${change.currentContent === undefined ? 'missing' : 'changed'})`)
+    );
+    const detail = [
+      ...files,
+      ...(failures.length > 0 ? ['', 'Skipped:', ...failures.map(failure => `- ${failure}`)] : [])
+    ].join('\n');
+
+    const choice = await vscode.window.showWarningMessage(
+      `Regenerate ${files.length} workspace files?`,
+      { modal: true, detail },
+      'Preview Changes',
+      'Overwrite'
+    );
+    if (!choice) {
+      return false;
+    }
+
+    if (choice === 'Preview Changes') {
+      await showDiffs(pending, previewProvider);
+
+      // Non-modal so the diff editors stay usable while deciding
+      const confirm = await vscode.window.showInformationMessage(
+        `Overwrite ${files.length} workspace files with the previewed content?`,
+        'Overwrite'
+      );
+      if (confirm !== 'Overwrite') {
+        return false;
+      }
+    }
+
+    const errors: string[] = [];
+    for (const { issue, project } of pending) {
+      try {
+        issueService.regenerateWorkspaceFiles(project.id, issue.id);
+      } catch (error) {
+        errors.push(`${issue.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      vscode.window.showErrorMessage(`Failed to regenerate workspace files:\n${errors.join('\n')}`);
+      return false;
+    }
+
+    vscode.window.showInformationMessage(
+      pending.length === 1
+        ? `Workspace files of ${pending[0].issue.id} regenerated`
+        : `Workspace files of ${pending.length} issues regenerated`
+    );
+    return failures.length === 0;
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to regenerate workspace: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Issue from tree item or quick pick; the quick pick also offers all issues at once
+ */
+async function resolveTargets(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager
+): Promise<Array<{ issue: Issue; project: Project }> | undefined> {
+  if (item && item.issue) {
+    const project: Project | undefined = item.project || configManager.loadProject(item.issue.projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${item.issue.projectId}`);
+    }
+    return [{ issue: item.issue, project }];
+  }
+
+  const targets = configManager.loadProjects().flatMap(project =>
+    stateManager.loadIssues(project.id).map(issue => ({ issue, project }))
+  );
+
+  if (targets.length === 0) {
+    vscode.window.showInformationMessage('No issues found');
+    return undefined;
+  }
+
+  const items = [
+    { label: '$(sync) All Issues', description: `${targets.length} issues`, targets },
+    ...targets.map(target => ({
+      label: `${target.issue.id}${target.issue.title ? ` - ${target.issue.title}` : ''}`,
+      description: `${target.project.name} [${target.issue.status}]`,
+      targets: [target]
+    }))
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select an issue to regenerate workspace files for'
+  });
+  return selected?.targets;
+}
+
+async function showDiffs(pending: IssueChanges[], previewProvider: WorkspacePreviewProvider): Promise<void> {
+  const changes = pending.flatMap(({ issue, changes }) => changes.map(change => ({ issue, change })));
+
+  for (const { issue, change } of changes.slice(0, MAX_PREVIEWS)) {
+    const fileName = path.basename(change.filePath);
+    const current = change.currentContent === undefined
+      ? previewProvider.set(`${change.filePath}.missing`, '')
+      : vscode.Uri.file(change.filePath);
+    const generated = previewProvider.set(change.filePath, change.newContent);
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      current,
+      generated,
+      `${issue.id}: ${fileName} (current ↔ regenerated)`,
+      { preview: false }
+    );
+  }
+
+  if (changes.length > MAX_PREVIEWS) {
+    vscode.window.showInformationMessage(`Showing ${MAX_PREVIEWS} of ${changes.length} changed files`);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Rename Issue command - change an issue ID along with its branches and directories
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+export async function renameIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  issueService: IssueService,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to rename');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+
+    const newId = await vscode.window.showInputBox({
+      prompt: `Rename ${issue.id} to`,
+      value: issue.id,
+      validateInput: (value) => {
+        const id = value.trim();
+        if (!id) {
+          return 'Issue ID is required';
+        }
+        if (/[\\/]/.test(id) || id === '.' || id === '..') {
+          return 'Issue ID cannot contain path separators';
+        }
+        if (id !== issue.id && (stateManager.getIssue(project.id, id) || stateManager.getArchivedIssue(project.id, id))) {
+          return `Issue ${id} already exists`;
+        }
+        return null;
+      }
+    });
+
+    if (!newId || newId.trim() === issue.id) {
+      return;
+    }
+
+    const newBranch = configManager.generateBranchName(newId.trim(), project.branchNaming);
+    const hasRemoteWork = issue.repos.some(r => r.pushed || r.pullRequest);
+    const openHere = vscode.workspace.workspaceFile?.fsPath.startsWith(issue.workspaceDir + path.sep);
+
+    const details = [
+      `Branches are renamed to ${newBranch} and the issue directory is moved to ${path.join(path.dirname(issue.workspaceDir), newId.trim())}.`,
+      hasRemoteWork ? 'Pushed branches keep their old names on the remote; later pushes still go there, so pull requests stay attached.' : '',
+      openHere ? 'This window has the issue workspace open; reopen it after renaming.' : ''
+    ].filter(Boolean);
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Rename ${issue.id} to ${newId.trim()}?`,
+      { modal: true, detail: details.join('\n') },
+      'Rename'
+    );
+    if (confirm !== 'Rename') {
+      return;
+    }
+
+    const renamed = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Renaming ${issue.id} to ${newId.trim()}...`,
+        cancellable: false
+      },
+      () => issueService.renameIssue(project.id, issue.id, newId)
+    );
+
+    onSuccess();
+
+    const action = await vscode.window.showInformationMessage(
+      `Issue ${issue.id} renamed to ${renamed.id}`,
+      'Open Workspace'
+    );
+    if (action === 'Open Workspace') {
+      vscode.commands.executeCommand('mrm.openWorkspace', { issue: renamed, project });
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to rename issue: ${error}`);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Review Code command - AI review of an issue's cross-repo diff, reported as diagnostics
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { ChangesetService } from '../services/changesetService';
+import { GeminiProvider } from '../services/modelProvider';
+import { ReviewService } from '../services/reviewService';
+import { ReviewSeverity } from '../models/types';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+export async function reviewCodeCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  secrets: vscode.SecretStorage,
+  diagnostics: vscode.DiagnosticCollection
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to review');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+
+    const modelProvider = await GeminiProvider.create(configManager.getConfig(), secrets);
+    if (!modelProvider) {
+      return;
+    }
+
+    const changesetService = new ChangesetService(configManager, stateManager);
+    const reviewService = new ReviewService(modelProvider);
+
+    const { result, changesets } = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Reviewing ${issue.id}...`,
+        cancellable: false
+      },
+      async (progress) => {
+        progress.report({ message: 'Collecting diffs...' });
+        const repoChangesets = await changesetService.collectChangeset(project.id, issue.id);
+
+        progress.report({ message: `Waiting for ${modelProvider.name}...` });
+        const reviewResult = await reviewService.review(issue, repoChangesets);
+
+        return { result: reviewResult, changesets: repoChangesets };
+      }
+    );
+
+    // Map findings to worktree files
+    const byFile: Map<string, vscode.Diagnostic[]> = new Map();
+
+    for (const finding of result.findings) {
+      const changeset = changesets.find(c => c.repoName === finding.repo);
+      if (!changeset) {
+        continue;
+      }
+
+      const filePath = path.join(changeset.worktreePath, finding.file);
+      const line = finding.line - 1;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+        finding.message,
+        toDiagnosticSeverity(finding.severity)
+      );
+      diagnostic.source = `MRM Review (${issue.id})`;
+
+      const fileDiagnostics = byFile.get(filePath) || [];
+      fileDiagnostics.push(diagnostic);
+      byFile.set(filePath, fileDiagnostics);
+    }
+
+    diagnostics.clear();
+    for (const [filePath, fileDiagnostics] of byFile) {
+      diagnostics.set(vscode.Uri.file(filePath), fileDiagnostics);
+    }
+
+    const message = `Review of ${issue.id}: ${result.findings.length} ${result.findings.length === 1 ? 'finding' : 'findings'}` +
+      (result.summary ? ` - ${result.summary}` : '');
+
+    const choice = await vscode.window.showInformationMessage(
+      message,
+      ...(result.findings.length > 0 ? ['Show Problems'] : [])
+    );
+
+    if (choice === 'Show Problems') {
+      await vscode.commands.executeCommand('workbench.actions.view.problems');
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to review code: ${error}`);
+  }
+}
+
+function toDiagnosticSeverity(severity: ReviewSeverity): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return vscode.DiagnosticSeverity.Error;
+    case 'warning':
+      return vscode.DiagnosticSeverity.Warning;
+    default:
+      return vscode.DiagnosticSeverity.Information;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Sync Issue commands - rebase/merge an issue's branches onto their base, continue or abort per repo
+ */
+
+import * as vscode from 'vscode';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { GitService } from '../services/gitService';
+import { SyncService } from '../services/syncService';
+import { RepoState, SyncOutcome, SyncStrategy } from '../models/types';
+import { resolveIssue, IssueCommandItem } from './issuePicker';
+
+const OUTCOME_LABELS: Record<SyncOutcome, string> = {
+  updated: '✓ updated',
+  up_to_date: '✓ up to date',
+  conflict: '⚠ conflict',
+  skipped: '– skipped',
+  failed: '✗ failed'
+};
+
+export async function syncIssueCommand(
+  item: IssueCommandItem | undefined,
+  configManager: ConfigManager,
+  stateManager: StateManager,
+  onSuccess: () => void
+): Promise<void> {
+  try {
+    const picked = await resolveIssue(item, configManager, stateManager, 'Select an issue to sync');
+    if (!picked) {
+      return;
+    }
+
+    const { issue, project } = picked;
+    // Invoked on a repo (tree node or issue detail panel): sync only that repo
+    const repoNames: string[] | undefined = item?.repoName ? [item.repoName] : undefined;
+    const target = repoNames ? `${issue.id}/${repoNames[0]}` : issue.id;
+
+    const strategy = await vscode.window.showQuickPick(
+      [
+        { label: '$(git-pull-request) Rebase', description: 'Replay issue commits on the base (pushed branches need a force push)', strategy: 'rebase' as SyncStrategy },
+        { label: '$(git-merge) Merge', description: 'Merge the base into the issue branch', strategy: 'merge' as SyncStrategy }
+      ],
+      { placeHolder: `Sync ${target} with its base branches` }
+    );
+
+    if (!strategy) {
+      return;
+    }
+
+    const syncService = new SyncService(configManager, stateManager);
+
+    const results = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Syncing ${target}...`,
+        cancellable: false
+      },
+      async (progress) => syncService.syncIssue(
+        project.id,
+        issue.id,
+        strategy.strategy,
+        message => progress.report({ message }),
+        repoNames
+      )
+    );
+
+    onSuccess();
+
+    const detail = results
+      .map(r => `${r.repoName} (${r.baseRef}): ${OUTCOME_LABELS[r.outcome]}${r.message ? ` - ${r.message}` : ''}`)
+      .join('\n');
+    const conflicts = results.filter(r => r.outcome === 'conflict').length;
+    const failures = results.filter(r => r.outcome === 'failed').length;
+
+    if (conflicts > 0) {
+      vscode.window.showWarningMessage(
+        `${issue.id}: ${conflicts} ${conflicts === 1 ? 'repository has' : 'repositories have'} conflicts`,
+        {
+          modal: true,
+          detail: `${detail}\n\nResolve the conflicts, then use "Continue" or "Abort" on the repository in the MRM view.`
+        }
+      );
+    } else if (failures > 0) {
+      vscode.window.showWarningMessage(`Sync of ${issue.id} finished with errors`, { modal: true, detail });
+    } else {
+      vscode.window.showInformationMessage(`Synced ${issue.id}: ${results.map(r => `${r.repoName} ${OUTCOME_LABELS[r.outcome]}`).join(', ')}`);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to sync issue: ${error}`);
+  }
+}
+
+/**
+ * Continue the rebase/merge of a repo node left mid-operation
+ */
+export async function continueSyncCommand(item: IssueCommandItem | undefined, onSuccess: () => void): Promise<void> {
+  const repoState = getRepoState(item);
+  if (!repoState) {
+    vscode.window.showInformationMessage('Please select a repository from the tree view');
+    return;
+  }
+
+  const { name: repoName, worktreePath } = repoState;
+
+  const gitService = new GitService();
+
+  try {
+    const operation = await gitService.getInProgressOperation(worktreePath);
+    if (!operation) {
+      vscode.window.showInformationMessage(`No rebase or merge in progress in ${repoName}`);
+      onSuccess();
+      return;
+    }
+
+    const conflicted = await gitService.getConflictedFiles(worktreePath);
+    if (conflicted.length > 0) {
+      vscode.window.showWarningMessage(
+        `Resolve and stage the conflicts in ${repoName} first: ${conflicted.join(', ')}`
+      );
+      return;
+    }
+
+    try {
+      await gitService.continueOperation(worktreePath, operation);
+    } catch (error) {
+      if (!await gitService.getInProgressOperation(worktreePath)) {
+        throw error;
+      }
+    }
+
+    onSuccess();
+
+    // A rebase may stop again on the next commit
+    if (await gitService.getInProgressOperation(worktreePath)) {
+      const next = await gitService.getConflictedFiles(worktreePath);
+      vscode.window.showWarningMessage(
+        `${repoName}: ${operation} stopped again${next.length > 0 ? ` with conflicts in ${next.join(', ')}` : ''}`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(`${repoName}: ${operation} completed`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to continue: ${error}`);
+  }
+}
+
+/**
+ * Abort the rebase/merge of a repo node left mid-operation
+ */
+export async function abortSyncCommand(item: IssueCommandItem | undefined, onSuccess: () => void): Promise<void> {
+  const repoState = getRepoState(item);
+  if (!repoState) {
+    vscode.window.showInformationMessage('Please select a repository from the tree view');
+    return;
+  }
+
+  const { name: repoName, worktreePath } = repoState;
+
+  const gitService = new GitService();
+
+  try {
+    const operation = await gitService.getInProgressOperation(worktreePath);
+    if (!operation) {
+      vscode.window.showInformationMessage(`No rebase or merge in progress in ${repoName}`);
+      onSuccess();
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      `Abort the ${operation} in ${repoName}? Conflict resolutions will be lost.`,
+      { modal: true },
+      'Abort'
+    );
+
+    if (confirm !== 'Abort') {
+      return;
+    }
+
+    await gitService.abortOperation(worktreePath, operation);
+    onSuccess();
+
+    vscode.window.showInformationMessage(`${repoName}: ${operation} aborted`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to abort: ${error}`);
+  }
+}
+
+/**
+ * Get the repo state of a repo tree node
+ */
+function getRepoState(item: IssueCommandItem | undefined): RepoState | undefined {
+  return item?.repoName ? item.issue?.repos.find(r => r.name === item.repoName) : undefined;
+}
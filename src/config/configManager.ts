@@ -6,8 +6,18 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import * as yaml from 'yaml';
-import { Config, Project, BranchNaming } from '../models/types';
+import { BrokenProject, Config, Project, BranchNaming, Repository } from '../models/types';
 import { expandTilde, getConfigDir, getWorkspaceDir, getProjectsDir } from './paths';
+import { validateProjectFile } from './configValidator';
+
+/**
+ * Repository entry as written in projects/*.yaml (keys as checked by configValidator)
+ * List and enum values are normalized on load, so they are not trusted here
+ */
+type RawRepository = Omit<Repository, 'copy_files' | 'copy_mode'> & {
+  copy_files?: unknown;
+  copy_mode?: unknown;
+};
 
 export class ConfigManager {
   private config: Config;
@@ -16,6 +26,13 @@ export class ConfigManager {
     this.config = this.loadConfig();
   }
 
+  /**
+   * Re-read VS Code settings and config.yaml (e.g., after either changed)
+   */
+  reload(): void {
+    this.config = this.loadConfig();
+  }
+
   /**
    * Load global configuration from VS Code settings and config.yaml
    */
@@ -63,7 +80,15 @@ export class ConfigManager {
         defaultOwner: vscodeConfig.get<string>('github.defaultOwner') ||
                      fileConfig.github?.defaultOwner,
         defaultRepo: vscodeConfig.get<string>('github.defaultRepo') ||
-                    fileConfig.github?.defaultRepo
+                    fileConfig.github?.defaultRepo,
+        apiUrl: vscodeConfig.get<string>('github.apiUrl') ||
+                fileConfig.github?.apiUrl ||
+                'https://api.github.com',
+        token: fileConfig.github?.token ||
+               process.env.GITHUB_TOKEN,
+        statusPollInterval: vscodeConfig.get<number>('github.statusPollInterval') ??
+                            fileConfig.github?.statusPollInterval ??
+                            120
       },
       gemini: {
         model: vscodeConfig.get<string>('gemini.model') ||
@@ -71,7 +96,20 @@ export class ConfigManager {
                'gemini-2.5-flash',
         enabled: vscodeConfig.get<boolean>('gemini.enabled') ??
                 fileConfig.gemini?.enabled ??
-                true
+                true,
+        endpoint: vscodeConfig.get<string>('gemini.endpoint') ||
+                  fileConfig.gemini?.endpoint ||
+                  'https://generativelanguage.googleapis.com/v1beta',
+        apiKey: fileConfig.gemini?.apiKey ||
+                process.env.GEMINI_API_KEY
+      },
+      jira: {
+        baseUrl: vscodeConfig.get<string>('jira.baseUrl') ||
+                 fileConfig.jira?.baseUrl,
+        email: fileConfig.jira?.email ||
+               process.env.JIRA_EMAIL,
+        token: fileConfig.jira?.token ||
+               process.env.JIRA_API_TOKEN
       }
     };
   }
@@ -106,15 +144,34 @@ export class ConfigManager {
 
   /**
    * Load all projects from projects/*.yaml
+   * Files that cannot be loaded are reported by loadBrokenProjects
    */
   loadProjects(): Project[] {
+    return this.readProjectFiles()
+      .map(result => result.project)
+      .filter((project): project is Project => project !== undefined);
+  }
+
+  /**
+   * List project files that fail to parse or lack repositories
+   */
+  loadBrokenProjects(): BrokenProject[] {
+    return this.readProjectFiles()
+      .map(result => result.broken)
+      .filter((broken): broken is BrokenProject => broken !== undefined);
+  }
+
+  /**
+   * Read every projects/*.yaml file
+   */
+  private readProjectFiles(): Array<{ project?: Project; broken?: BrokenProject }> {
     const projectsDir = getProjectsDir(this.config.configDir);
 
     if (!fs.existsSync(projectsDir)) {
       return [];
     }
 
-    const projects: Project[] = [];
+    const results: Array<{ project?: Project; broken?: BrokenProject }> = [];
     const files = fs.readdirSync(projectsDir);
 
     for (const file of files) {
@@ -122,32 +179,55 @@ export class ConfigManager {
         continue;
       }
 
+      const projectId = path.basename(file, path.extname(file));
+      const filePath = path.join(projectsDir, file);
+
       try {
-        const filePath = path.join(projectsDir, file);
         const content = fs.readFileSync(filePath, 'utf-8');
         const projectData = yaml.parse(content);
 
         if (projectData && projectData.repositories && Array.isArray(projectData.repositories)) {
-          const projectId = path.basename(file, path.extname(file));
-          projects.push({
-            id: projectId,
-            name: projectData.name || projectId,
-            description: projectData.description,
-            repositories: projectData.repositories.map((repo: any) => ({
-              name: repo.name,
-              path: expandTilde(repo.path),
-              default_branch: repo.default_branch || 'main',
-              remote: repo.remote || 'origin'
-            })),
-            branchNaming: projectData.branch_naming || this.config.branchNaming
+          results.push({
+            project: {
+              id: projectId,
+              name: projectData.name || projectId,
+              description: projectData.description,
+              repositories: projectData.repositories.map((repo: RawRepository): Repository => ({
+                name: repo.name,
+                path: expandTilde(repo.path),
+                description: repo.description,
+                default_branch: repo.default_branch || 'main',
+                remote: repo.remote || 'origin',
+                hooks: repo.hooks || undefined,
+                copy_files: Array.isArray(repo.copy_files) ? repo.copy_files.map(String) : undefined,
+                copy_mode: repo.copy_mode === 'symlink' ? 'symlink' : undefined
+              })),
+              branchNaming: projectData.branch_naming || this.config.branchNaming,
+              workspace: projectData.workspace || undefined,
+              claude: projectData.claude || undefined,
+              hooks: projectData.hooks || undefined
+            }
           });
+          continue;
         }
+
+        const firstError = validateProjectFile(content).find(issue => issue.severity === 'error');
+        results.push({
+          broken: {
+            id: projectId,
+            filePath,
+            error: firstError
+              ? `line ${firstError.line + 1}: ${firstError.message}`
+              : 'Missing required key "repositories"'
+          }
+        });
       } catch (error) {
         console.warn(`Failed to load project file ${file}: ${error}`);
+        results.push({ broken: { id: projectId, filePath, error: `${error}` } });
       }
     }
 
-    return projects;
+    return results;
   }
 
   /**
@@ -0,0 +1,367 @@
+/**
+ * Validation of projects/*.yaml and config.yaml (mirrors schemas/*.schema.json)
+ * Reports positions so problems can be shown as diagnostics
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { ConfigIssue } from '../models/types';
+import { expandTilde } from './paths';
+
+const PROJECT_KEYS = ['name', 'description', 'repositories', 'branch_naming', 'workspace', 'claude', 'hooks'];
+const REPOSITORY_KEYS = ['name', 'path', 'description', 'default_branch', 'remote', 'hooks', 'copy_files', 'copy_mode'];
+const BRANCH_NAMING_KEYS = ['pattern', 'separator'];
+const WORKSPACE_KEYS = ['settings', 'extensions', 'launch', 'tasks'];
+const LAUNCH_KEYS = ['configurations', 'compounds'];
+const CLAUDE_KEYS = ['assets', 'template'];
+const HOOK_EVENTS = ['post_create', 'pre_delete'];
+const HOOK_STEP_KEYS = ['run', 'cwd', 'copy', 'symlink', 'to'];
+const HOOK_ACTIONS = ['run', 'copy', 'symlink'];
+
+const REPO_PLACEHOLDER = /\$\{repo:([^}]+)\}/g;
+
+const CONFIG_KEYS: Record<string, string[]> = {
+  branchNaming: BRANCH_NAMING_KEYS,
+  github: ['defaultOwner', 'defaultRepo', 'apiUrl', 'token', 'statusPollInterval'],
+  gemini: ['model', 'enabled', 'endpoint', 'apiKey'],
+  jira: ['baseUrl', 'email', 'token']
+};
+
+/**
+ * Validate a project file; errors mean the project cannot be loaded
+ */
+export function validateProjectFile(content: string): ConfigIssue[] {
+  const { doc, issues, at } = parse(content);
+  if (!doc) {
+    return issues;
+  }
+
+  const root = doc.contents;
+  if (!yaml.isMap(root)) {
+    issues.push(at(root, 'Project file must be a mapping with a "repositories" list', 'error'));
+    return issues;
+  }
+
+  checkKeys(root, PROJECT_KEYS, issues, at);
+
+  const repositories = root.get('repositories', true);
+  if (!repositories) {
+    issues.push(at(root, 'Missing required key "repositories"', 'error'));
+  } else if (!yaml.isSeq(repositories)) {
+    issues.push(at(repositories, '"repositories" must be a list', 'error'));
+  } else {
+    const names = new Set<string>();
+
+    for (const repoNode of repositories.items) {
+      if (!yaml.isMap(repoNode)) {
+        issues.push(at(repoNode, 'Repository must be a mapping with "name" and "path"', 'error'));
+        continue;
+      }
+
+      checkKeys(repoNode, REPOSITORY_KEYS, issues, at);
+
+      const nameNode = repoNode.get('name', true);
+      const name = yaml.isScalar(nameNode) ? String(nameNode.value ?? '') : '';
+      if (!name) {
+        issues.push(at(nameNode || repoNode, 'Repository "name" is required', 'error'));
+      } else if (names.has(name)) {
+        issues.push(at(nameNode, `Duplicate repository name "${name}"`, 'error'));
+      } else {
+        names.add(name);
+      }
+
+      const pathNode = repoNode.get('path', true);
+      const repoPath = yaml.isScalar(pathNode) ? String(pathNode.value ?? '') : '';
+      if (!repoPath) {
+        issues.push(at(pathNode || repoNode, 'Repository "path" is required', 'error'));
+      } else if (!fs.existsSync(expandTilde(repoPath))) {
+        issues.push(at(pathNode, `Repository path does not exist: ${repoPath}`, 'error'));
+      } else if (!fs.existsSync(path.join(expandTilde(repoPath), '.git'))) {
+        issues.push(at(pathNode, `Not a git repository: ${repoPath}`, 'warning'));
+      }
+
+      const copyFiles = repoNode.get('copy_files', true);
+      if (copyFiles && (!yaml.isSeq(copyFiles) || !copyFiles.items.every(item => yaml.isScalar(item) && typeof item.value === 'string'))) {
+        issues.push(at(copyFiles, '"copy_files" must be a list of glob patterns', 'error'));
+      }
+
+      const copyMode = repoNode.get('copy_mode', true);
+      if (copyMode && !(yaml.isScalar(copyMode) && ['copy', 'symlink'].includes(String(copyMode.value)))) {
+        issues.push(at(copyMode, '"copy_mode" must be "copy" or "symlink"', 'error'));
+      }
+
+      const repoHooks = repoNode.get('hooks', true);
+      if (repoHooks) {
+        checkHooks(repoHooks, issues, at);
+      }
+    }
+  }
+
+  const branchNaming = root.get('branch_naming', true);
+  if (branchNaming) {
+    checkBranchNaming(branchNaming, issues, at);
+  }
+
+  const workspace = root.get('workspace', true);
+  if (workspace) {
+    const repoNames = yaml.isSeq(repositories)
+      ? repositories.items.flatMap(item => {
+          const name = yaml.isMap(item) ? item.get('name') : undefined;
+          return name ? [String(name)] : [];
+        })
+      : [];
+    checkWorkspace(workspace, repoNames, issues, at);
+  }
+
+  const hooks = root.get('hooks', true);
+  if (hooks) {
+    checkHooks(hooks, issues, at);
+  }
+
+  const claude = root.get('claude', true);
+  if (claude) {
+    checkClaude(claude, issues, at);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate config.yaml
+ */
+export function validateConfigFile(content: string): ConfigIssue[] {
+  const { doc, issues, at } = parse(content);
+  if (!doc || doc.contents === null) {
+    return issues;
+  }
+
+  const root = doc.contents;
+  if (!yaml.isMap(root)) {
+    issues.push(at(root, 'config.yaml must be a mapping', 'error'));
+    return issues;
+  }
+
+  checkKeys(root, Object.keys(CONFIG_KEYS), issues, at);
+
+  for (const [section, keys] of Object.entries(CONFIG_KEYS)) {
+    const node = root.get(section, true);
+    if (!node) {
+      continue;
+    }
+    if (!yaml.isMap(node)) {
+      issues.push(at(node, `"${section}" must be a mapping`, 'error'));
+      continue;
+    }
+    if (section === 'branchNaming') {
+      checkBranchNaming(node, issues, at);
+    } else {
+      checkKeys(node, keys, issues, at);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check that a branch naming pattern produces valid git branch names
+ * Returns an error message, or undefined if valid
+ */
+export function checkBranchPattern(pattern: string): string | undefined {
+  if (!pattern.includes('{issue_id}')) {
+    return 'Branch naming pattern must contain {issue_id}';
+  }
+
+  const sample = pattern.replace(/\{issue_id\}/g, 'ABC-123');
+  if (
+    /[\s~^:?*[\\]/.test(sample) ||
+    sample.includes('..') ||
+    sample.includes('@{') ||
+    sample.includes('//') ||
+    /^[/.]|[/.]$/.test(sample) ||
+    sample.endsWith('.lock')
+  ) {
+    return `Branch naming pattern produces an invalid git branch name: ${sample}`;
+  }
+
+  return undefined;
+}
+
+type At = (node: unknown, message: string, severity: ConfigIssue['severity']) => ConfigIssue;
+
+/**
+ * Parse YAML with positions; syntax errors are returned as issues
+ */
+function parse(content: string): { doc?: yaml.Document; issues: ConfigIssue[]; at: At } {
+  const lineCounter = new yaml.LineCounter();
+  const doc = yaml.parseDocument(content, { lineCounter });
+
+  const toIssue = (start: number, end: number, message: string, severity: ConfigIssue['severity']): ConfigIssue => {
+    const startPos = lineCounter.linePos(start);
+    const endPos = lineCounter.linePos(Math.max(end, start));
+    return {
+      message,
+      severity,
+      line: startPos.line - 1,
+      column: startPos.col - 1,
+      endLine: endPos.line - 1,
+      endColumn: endPos.col - 1
+    };
+  };
+
+  const at: At = (node, message, severity) => {
+    const range = (node as { range?: [number, number, number] } | null)?.range;
+    return range ? toIssue(range[0], range[1], message, severity) : toIssue(0, 0, message, severity);
+  };
+
+  const issues = doc.errors.map(error =>
+    toIssue(error.pos[0], error.pos[1], error.message.split('\n')[0].replace(/:$/, ''), 'error')
+  );
+
+  return { doc: issues.length > 0 ? undefined : doc, issues, at };
+}
+
+function checkKeys(map: yaml.YAMLMap, allowed: string[], issues: ConfigIssue[], at: At): void {
+  for (const pair of map.items) {
+    const key = yaml.isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+    if (!allowed.includes(key)) {
+      issues.push(at(pair.key, `Unknown key "${key}" (expected: ${allowed.join(', ')})`, 'warning'));
+    }
+  }
+}
+
+function checkBranchNaming(node: unknown, issues: ConfigIssue[], at: At): void {
+  if (!yaml.isMap(node)) {
+    issues.push(at(node, 'Branch naming must be a mapping with "pattern" and "separator"', 'error'));
+    return;
+  }
+
+  checkKeys(node, BRANCH_NAMING_KEYS, issues, at);
+
+  const patternNode = node.get('pattern', true);
+  if (yaml.isScalar(patternNode)) {
+    const error = checkBranchPattern(String(patternNode.value ?? ''));
+    if (error) {
+      issues.push(at(patternNode, error, 'error'));
+    }
+  }
+}
+
+function checkWorkspace(node: unknown, repoNames: string[], issues: ConfigIssue[], at: At): void {
+  if (!yaml.isMap(node)) {
+    issues.push(at(node, '"workspace" must be a mapping', 'error'));
+    return;
+  }
+
+  checkKeys(node, WORKSPACE_KEYS, issues, at);
+
+  const settings = node.get('settings', true);
+  if (settings && !yaml.isMap(settings)) {
+    issues.push(at(settings, '"settings" must be a mapping', 'error'));
+  }
+
+  const extensions = node.get('extensions', true);
+  if (extensions && !yaml.isSeq(extensions)) {
+    issues.push(at(extensions, '"extensions" must be a list of extension IDs', 'error'));
+  }
+
+  const launch = node.get('launch', true);
+  if (launch) {
+    if (!yaml.isMap(launch)) {
+      issues.push(at(launch, '"launch" must be a mapping with "configurations" and "compounds"', 'error'));
+    } else {
+      checkKeys(launch, LAUNCH_KEYS, issues, at);
+      checkNamedList(launch.get('configurations', true), 'name', issues, at);
+      checkNamedList(launch.get('compounds', true), 'name', issues, at);
+    }
+  }
+
+  checkNamedList(node.get('tasks', true), 'label', issues, at);
+
+  // ${repo:<name>} must name a project repository
+  yaml.visit(node, {
+    Scalar(_key, scalar) {
+      if (typeof scalar.value !== 'string') {
+        return;
+      }
+      for (const match of scalar.value.matchAll(REPO_PLACEHOLDER)) {
+        if (!repoNames.includes(match[1])) {
+          issues.push(at(scalar, `Unknown repository "${match[1]}" in \${repo:${match[1]}}`, 'warning'));
+        }
+      }
+    }
+  });
+}
+
+function checkClaude(node: unknown, issues: ConfigIssue[], at: At): void {
+  if (!yaml.isMap(node)) {
+    issues.push(at(node, '"claude" must be a mapping with "assets" and "template"', 'error'));
+    return;
+  }
+
+  checkKeys(node, CLAUDE_KEYS, issues, at);
+
+  const assets = node.get('assets', true);
+  if (assets && (!yaml.isSeq(assets) || !assets.items.every(item => yaml.isScalar(item) && typeof item.value === 'string'))) {
+    issues.push(at(assets, '"assets" must be a list of file or directory paths', 'error'));
+  }
+
+  const template = node.get('template', true);
+  if (template && !(yaml.isScalar(template) && typeof template.value === 'string')) {
+    issues.push(at(template, '"template" must be a file path', 'error'));
+  }
+}
+
+function checkHooks(node: unknown, issues: ConfigIssue[], at: At): void {
+  if (!yaml.isMap(node)) {
+    issues.push(at(node, '"hooks" must be a mapping with "post_create" and "pre_delete"', 'error'));
+    return;
+  }
+
+  checkKeys(node, HOOK_EVENTS, issues, at);
+
+  for (const event of HOOK_EVENTS) {
+    const steps = node.get(event, true);
+    if (!steps) {
+      continue;
+    }
+    if (!yaml.isSeq(steps)) {
+      issues.push(at(steps, `"${event}" must be a list of steps`, 'error'));
+      continue;
+    }
+
+    for (const step of steps.items) {
+      if (!yaml.isMap(step)) {
+        issues.push(at(step, 'Hook step must be a mapping with "run", "copy" or "symlink"', 'error'));
+        continue;
+      }
+
+      checkKeys(step, HOOK_STEP_KEYS, issues, at);
+
+      const actions = HOOK_ACTIONS.filter(action => step.has(action));
+      if (actions.length !== 1) {
+        issues.push(at(step, 'Hook step needs exactly one of "run", "copy" or "symlink"', 'error'));
+      } else if (step.has('to') && actions[0] === 'run') {
+        issues.push(at(step.get('to', true), '"to" applies to copy and symlink steps', 'warning'));
+      } else if (step.has('cwd') && actions[0] !== 'run') {
+        issues.push(at(step.get('cwd', true), '"cwd" applies to run steps', 'warning'));
+      }
+    }
+  }
+}
+
+function checkNamedList(node: unknown, key: string, issues: ConfigIssue[], at: At): void {
+  if (!node) {
+    return;
+  }
+  if (!yaml.isSeq(node)) {
+    issues.push(at(node, 'Must be a list', 'error'));
+    return;
+  }
+
+  for (const item of node.items) {
+    if (!yaml.isMap(item) || !item.get(key)) {
+      issues.push(at(item, `Each entry needs a "${key}"`, 'error'));
+    }
+  }
+}
@@ -55,3 +55,17 @@ export function getDataDir(configDir: string): string {
 export function getProjectDataDir(configDir: string, projectId: string): string {
   return path.join(getDataDir(configDir), projectId);
 }
+
+/**
+ * Get directory for work archived before issue deletion
+ */
+export function getWorkArchiveDir(configDir: string, projectId: string): string {
+  return path.join(configDir, 'archive', projectId);
+}
+
+/**
+ * Get directory of a project's Claude assets and templates
+ */
+export function getTemplatesDir(configDir: string, projectId: string): string {
+  return path.join(configDir, 'templates', projectId);
+}
@@ -8,36 +8,186 @@ import { ConfigManager } from './config/configManager';
 import { StateManager } from './services/stateManager';
 import { IssueService } from './services/issueService';
 import { ProjectManager } from './services/projectManager';
-import { ProjectTreeProvider } from './views/projectTreeProvider';
+import { ProjectTreeProvider, DEFAULT_VIEW_OPTIONS } from './views/projectTreeProvider';
+import { IssueDetailPanel, IssueDetailContext } from './views/issueDetailPanel';
 import { StatusBarManager } from './statusBar/statusBarManager';
 import { createProjectCommand } from './commands/createProjectCommand';
-import { CreateIssueOptions, DeleteIssueOptions } from './models/types';
+import { createPRCommand } from './commands/createPRCommand';
+import { reviewCodeCommand } from './commands/reviewCodeCommand';
+import { editIssueCommand } from './commands/editIssueCommand';
+import { editIssueReposCommand } from './commands/editIssueReposCommand';
+import { renameIssueCommand } from './commands/renameIssueCommand';
+import {
+  regenerateWorkspaceCommand,
+  WorkspacePreviewProvider,
+  PREVIEW_SCHEME
+} from './commands/regenerateWorkspaceCommand';
+import { resolveIssue, IssueCommandItem } from './commands/issuePicker';
+import { runIssueHooks } from './commands/issueHooks';
+import { pickIssueBases, PickedBases } from './commands/baseRefPicker';
+import { syncIssueCommand, continueSyncCommand, abortSyncCommand } from './commands/syncIssueCommand';
+import { commitAllCommand, pushAllCommand } from './commands/commitAllCommand';
+import { closeIssueCommand, reopenIssueCommand, markMergedCommand } from './commands/issueStatusCommands';
+import { archiveIssueCommand, restoreIssueCommand } from './commands/archiveIssueCommands';
+import {
+  filterIssuesCommand,
+  searchIssuesCommand,
+  groupIssuesCommand,
+  sortIssuesCommand,
+  clearIssueFilterCommand
+} from './commands/issueViewCommands';
+import { GitHubService } from './services/githubService';
+import { IssueTrackerService } from './services/issueTrackerService';
+import { PRStatusPoller } from './services/prStatusPoller';
+import { WorktreeWatcher } from './services/worktreeWatcher';
+import { ConfigWatcher } from './services/configWatcher';
+import { ConfigDiagnostics } from './services/configDiagnostics';
+import { CreateIssueOptions, DeleteIssueOptions, Issue, IssueViewOptions, Project, TrackerIssue } from './models/types';
 import * as path from 'path';
+import * as fs from 'fs';
 
 let issueService: IssueService;
 let projectManager: ProjectManager;
 let treeProvider: ProjectTreeProvider;
 let statusBarManager: StatusBarManager;
 let configManager: ConfigManager;
+let stateManager: StateManager;
+let prStatusPoller: PRStatusPoller;
+let worktreeWatcher: WorktreeWatcher;
+let outputChannel: vscode.OutputChannel;
+
+const VIEW_OPTIONS_KEY = 'mrm.issueViewOptions';
 
 export function activate(context: vscode.ExtensionContext): void {
-  const outputChannel = vscode.window.createOutputChannel('Multiroot Manager');
+  outputChannel = vscode.window.createOutputChannel('Multiroot Manager');
   outputChannel.appendLine('Multiroot Manager extension activated');
 
   // Initialize services
   configManager = new ConfigManager();
-  const stateManager = new StateManager(configManager.getConfigDir());
+  stateManager = new StateManager(configManager.getConfigDir());
   issueService = new IssueService(configManager, stateManager);
   projectManager = new ProjectManager(configManager.getConfigDir());
 
+  // Initialize PR status polling
+  prStatusPoller = new PRStatusPoller(configManager, stateManager);
+  context.subscriptions.push(prStatusPoller);
+
   // Initialize TreeView
-  treeProvider = new ProjectTreeProvider(configManager, stateManager);
-  vscode.window.registerTreeDataProvider('mrmProjects', treeProvider);
+  treeProvider = new ProjectTreeProvider(configManager, stateManager, prStatusPoller);
+  const treeView = vscode.window.createTreeView('mrmProjects', { treeDataProvider: treeProvider });
+  context.subscriptions.push(treeView);
+
+  // Issue filter, grouping and sorting persist per workspace and show in the view description
+  const applyViewOptions = (options: IssueViewOptions) => {
+    treeProvider.setViewOptions(options);
+    treeView.description = treeProvider.describeViewOptions();
+    vscode.commands.executeCommand('setContext', 'mrm.issueFilterActive', treeProvider.isFiltered());
+  };
+  const onViewOptionsChange = (options: IssueViewOptions) => {
+    applyViewOptions(options);
+    context.workspaceState.update(VIEW_OPTIONS_KEY, options);
+  };
+  applyViewOptions({
+    ...DEFAULT_VIEW_OPTIONS,
+    ...context.workspaceState.get<Partial<IssueViewOptions>>(VIEW_OPTIONS_KEY)
+  });
 
   // Initialize Status Bar
   statusBarManager = new StatusBarManager(configManager, stateManager);
   statusBarManager.activate(context);
 
+  context.subscriptions.push(
+    prStatusPoller.onDidUpdate(() => {
+      treeProvider.refresh();
+      statusBarManager.detectAndUpdateCurrentIssue();
+    })
+  );
+  prStatusPoller.start();
+
+  // Refresh repo status when worktree files or git metadata change
+  worktreeWatcher = new WorktreeWatcher(configManager);
+  context.subscriptions.push(
+    worktreeWatcher,
+    worktreeWatcher.onDidChange(() => treeProvider.refresh())
+  );
+  worktreeWatcher.start();
+
+  // Reload when config, projects or issues change (CLI, other windows, settings)
+  const configWatcher = new ConfigWatcher(configManager);
+  context.subscriptions.push(
+    configWatcher,
+    configWatcher.onDidChange(change => {
+      if (change.config) {
+        const configDir = configManager.getConfigDir();
+        configManager.reload();
+
+        if (configManager.getConfigDir() !== configDir) {
+          vscode.window.showInformationMessage(
+            'MRM config directory changed. Reload the window to apply it.',
+            'Reload Window'
+          ).then(choice => {
+            if (choice === 'Reload Window') {
+              vscode.commands.executeCommand('workbench.action.reloadWindow');
+            }
+          });
+        }
+
+        prStatusPoller.start();
+      }
+
+      if (change.config || change.projects) {
+        worktreeWatcher.start();
+      } else if (change.issueProjects.length > 0) {
+        prStatusPoller.poll();
+      }
+
+      treeProvider.refresh();
+      statusBarManager.detectAndUpdateCurrentIssue();
+    })
+  );
+  configWatcher.start();
+
+  // Problems in projects/*.yaml and config.yaml
+  const configDiagnostics = new ConfigDiagnostics(configManager);
+  context.subscriptions.push(
+    configDiagnostics,
+    configWatcher.onDidChange(change => {
+      if (change.config || change.projects) {
+        configDiagnostics.validateAll();
+      }
+    })
+  );
+  configDiagnostics.validateAll();
+
+  // Issue detail panels re-render on the same signals as the tree
+  const issueDetailContext: IssueDetailContext = {
+    configManager,
+    stateManager,
+    issueService,
+    prStatusPoller,
+    refreshEvents: [prStatusPoller.onDidUpdate, worktreeWatcher.onDidChange, configWatcher.onDidChange],
+    onChanged: () => {
+      treeProvider.refresh();
+      statusBarManager.detectAndUpdateCurrentIssue();
+    }
+  };
+
+  const onIssueStatusChanged = () => {
+    treeProvider.refresh();
+    statusBarManager.detectAndUpdateCurrentIssue();
+    worktreeWatcher.start();
+  };
+
+  // Generated content shown in workspace regeneration diffs
+  const workspacePreviewProvider = new WorkspacePreviewProvider();
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, workspacePreviewProvider)
+  );
+
+  // AI review findings
+  const reviewDiagnostics = vscode.languages.createDiagnosticCollection('mrm-review');
+  context.subscriptions.push(reviewDiagnostics);
+
   // Register commands
   context.subscriptions.push(
     // Project commands
@@ -52,10 +202,75 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.commands.registerCommand('mrm.createIssue', createIssueCommand),
     vscode.commands.registerCommand('mrm.openWorkspace', openWorkspaceCommand),
     vscode.commands.registerCommand('mrm.deleteIssue', deleteIssueCommand),
+    vscode.commands.registerCommand('mrm.editIssue', (item?: IssueCommandItem) =>
+      editIssueCommand(item, configManager, stateManager, issueService, issueDetailContext.onChanged)
+    ),
+    vscode.commands.registerCommand('mrm.renameIssue', (item?: IssueCommandItem) =>
+      renameIssueCommand(item, configManager, stateManager, issueService, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.regenerateWorkspace', (item?: IssueCommandItem) =>
+      regenerateWorkspaceCommand(item, configManager, stateManager, issueService, workspacePreviewProvider)
+    ),
+    vscode.commands.registerCommand('mrm.editIssueRepos', (item?: IssueCommandItem) =>
+      editIssueReposCommand(item, configManager, stateManager, issueService, outputChannel, () => {
+        treeProvider.refresh();
+        statusBarManager.detectAndUpdateCurrentIssue();
+        worktreeWatcher.start();
+      })
+    ),
+    vscode.commands.registerCommand('mrm.syncIssue', (item?: IssueCommandItem) =>
+      syncIssueCommand(item, configManager, stateManager, () => treeProvider.refresh())
+    ),
+    vscode.commands.registerCommand('mrm.continueSync', (item?: IssueCommandItem) =>
+      continueSyncCommand(item, () => treeProvider.refresh())
+    ),
+    vscode.commands.registerCommand('mrm.abortSync', (item?: IssueCommandItem) =>
+      abortSyncCommand(item, () => treeProvider.refresh())
+    ),
+    vscode.commands.registerCommand('mrm.commitAll', (item?: IssueCommandItem) =>
+      commitAllCommand(item, configManager, stateManager, () => treeProvider.refresh())
+    ),
+    vscode.commands.registerCommand('mrm.pushAll', (item?: IssueCommandItem) =>
+      pushAllCommand(item, configManager, stateManager, () => treeProvider.refresh())
+    ),
+    vscode.commands.registerCommand('mrm.closeIssue', (item?: IssueCommandItem) =>
+      closeIssueCommand(item, configManager, stateManager, issueService, outputChannel, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.reopenIssue', (item?: IssueCommandItem) =>
+      reopenIssueCommand(item, configManager, stateManager, issueService, outputChannel, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.markMerged', (item?: IssueCommandItem) =>
+      markMergedCommand(item, configManager, stateManager, issueService, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.archiveIssue', (item?: IssueCommandItem) =>
+      archiveIssueCommand(item, configManager, stateManager, issueService, outputChannel, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.restoreIssue', (item?: IssueCommandItem) =>
+      restoreIssueCommand(item, configManager, stateManager, issueService, outputChannel, onIssueStatusChanged)
+    ),
+    vscode.commands.registerCommand('mrm.createPR', (item?: IssueCommandItem) =>
+      createPRCommand(item, configManager, stateManager, context.secrets, () => {
+        treeProvider.refresh();
+        statusBarManager.detectAndUpdateCurrentIssue();
+        prStatusPoller.poll(true);
+      })
+    ),
+    vscode.commands.registerCommand('mrm.reviewCode', (item?: IssueCommandItem) =>
+      reviewCodeCommand(item, configManager, stateManager, context.secrets, reviewDiagnostics)
+    ),
     vscode.commands.registerCommand('mrm.refreshAll', refreshAllCommand),
-    vscode.commands.registerCommand('mrm.showStatus', showStatusCommand),
+    vscode.commands.registerCommand('mrm.showStatus', (item?: IssueCommandItem) => showStatusCommand(item, issueDetailContext)),
     vscode.commands.registerCommand('mrm.switchIssue', switchIssueCommand),
-    vscode.commands.registerCommand('mrm.cleanupWorkspaces', cleanupWorkspacesCommand)
+    vscode.commands.registerCommand('mrm.cleanupWorkspaces', cleanupWorkspacesCommand),
+
+    // Tree view commands
+    vscode.commands.registerCommand('mrm.filterIssues', () => filterIssuesCommand(treeProvider, onViewOptionsChange)),
+    vscode.commands.registerCommand('mrm.searchIssues', () => searchIssuesCommand(treeProvider, onViewOptionsChange)),
+    vscode.commands.registerCommand('mrm.groupIssues', () => groupIssuesCommand(treeProvider, onViewOptionsChange)),
+    vscode.commands.registerCommand('mrm.sortIssues', () => sortIssuesCommand(treeProvider, onViewOptionsChange)),
+    vscode.commands.registerCommand('mrm.clearIssueFilter', () =>
+      clearIssueFilterCommand(treeProvider, onViewOptionsChange)
+    )
   );
 
   outputChannel.appendLine('All commands registered');
@@ -92,9 +307,50 @@ async function createIssueCommand(): Promise<void> {
       return;
     }
 
-    // Step 2: Enter issue ID
-    const issueId = await vscode.window.showInputBox({
-      prompt: 'Enter issue ID (e.g., SHOP-123)',
+    // Step 2: Select repositories (all preselected)
+    const project = projects.find(p => p.id === selectedProject.projectId);
+    let selectedRepos: string[] | undefined;
+
+    if (project && project.repositories.length > 1) {
+      const repoItems = await vscode.window.showQuickPick(
+        project.repositories.map(r => ({
+          label: r.name,
+          description: r.path,
+          picked: true
+        })),
+        {
+          placeHolder: 'Select repositories for this issue',
+          canPickMany: true
+        }
+      );
+
+      if (!repoItems || repoItems.length === 0) {
+        return;
+      }
+
+      selectedRepos = repoItems.map(r => r.label);
+    }
+
+    // Step 2b: Select starting point (default branch, release branch, tag or another issue's branch)
+    let bases: PickedBases = {};
+
+    if (project) {
+      const pickedBases = await pickIssueBases(
+        project,
+        project.repositories.filter(r => !selectedRepos || selectedRepos.includes(r.name)),
+        stateManager
+      );
+
+      if (!pickedBases) {
+        return;
+      }
+      bases = pickedBases;
+    }
+
+    // Step 3: Enter issue ID or tracker reference
+    const issueInput = await vscode.window.showInputBox({
+      prompt: 'Enter issue ID, GitHub issue URL (or owner/repo#123), or Jira key',
+      placeHolder: 'SHOP-123',
       validateInput: (value) => {
         if (!value || value.trim().length === 0) {
           return 'Issue ID is required';
@@ -103,21 +359,77 @@ async function createIssueCommand(): Promise<void> {
       }
     });
 
+    if (!issueInput) {
+      return;
+    }
+
+    // Fetch issue details from tracker if input is a GitHub/Jira reference
+    const trackerService = IssueTrackerService.create(
+      configManager.getConfig(),
+      () => GitHubService.create(configManager.getConfig())
+    );
+    const provider = trackerService.findProvider(issueInput);
+    let trackerIssue: TrackerIssue | undefined;
+
+    if (provider) {
+      try {
+        trackerIssue = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Fetching issue from ${provider.name}...`,
+            cancellable: false
+          },
+          async () => provider.fetchIssue(issueInput)
+        );
+      } catch (error) {
+        const choice = await vscode.window.showWarningMessage(
+          `Failed to fetch issue from ${provider.name}: ${error}`,
+          'Continue Without Details',
+          'Cancel'
+        );
+        if (choice !== 'Continue Without Details') {
+          return;
+        }
+      }
+    }
+
+    // Confirm issue ID (pre-filled from tracker key)
+    const issueId = trackerIssue
+      ? await vscode.window.showInputBox({
+          prompt: 'Confirm issue ID',
+          value: trackerIssue.key,
+          validateInput: (value) => {
+            if (!value || value.trim().length === 0) {
+              return 'Issue ID is required';
+            }
+            return null;
+          }
+        })
+      : issueInput.trim();
+
     if (!issueId) {
       return;
     }
 
-    // Step 3: Enter title (optional)
+    if (issueService.getIssue(selectedProject.projectId, issueId)) {
+      vscode.window.showErrorMessage(`Issue ${issueId} already exists in ${selectedProject.label}`);
+      return;
+    }
+
+    // Step 4: Enter title (optional)
     const title = await vscode.window.showInputBox({
       prompt: 'Enter issue title (optional)',
-      placeHolder: 'Add payment retry logic'
+      placeHolder: 'Add payment retry logic',
+      value: trackerIssue?.title
     });
 
-    // Step 4: Enter description (optional)
-    const description = await vscode.window.showInputBox({
-      prompt: 'Enter issue description (optional)',
-      placeHolder: 'Implement retry mechanism for payment failures'
-    });
+    // Step 5: Enter description (optional, fetched body is used as-is)
+    const description = trackerIssue
+      ? trackerIssue.body
+      : await vscode.window.showInputBox({
+          prompt: 'Enter issue description (optional)',
+          placeHolder: 'Implement retry mechanism for payment failures'
+        });
 
     // Create issue
     await vscode.window.withProgress(
@@ -133,17 +445,48 @@ async function createIssueCommand(): Promise<void> {
           projectId: selectedProject.projectId,
           issueId,
           title,
-          description
+          description,
+          labels: trackerIssue?.labels,
+          trackerUrl: trackerIssue?.url,
+          repos: selectedRepos,
+          base: bases.base,
+          repoBases: bases.repoBases
         };
 
         const issue = await issueService.createIssue(options);
 
         // Refresh tree view and status bar
+        worktreeWatcher.start();
         treeProvider.refresh();
         statusBarManager.detectAndUpdateCurrentIssue();
       }
     );
 
+    // Post-create hooks (install dependencies, copy .env files, ...)
+    const hooksCompleted = await runIssueHooks(
+      issueService,
+      outputChannel,
+      selectedProject.projectId,
+      issueId,
+      'post_create'
+    );
+
+    if (!hooksCompleted) {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Rolling back issue ${issueId}...`,
+          cancellable: false
+        },
+        () => issueService.rollbackCreatedIssue(selectedProject.projectId, issueId)
+      );
+
+      treeProvider.refresh();
+      statusBarManager.detectAndUpdateCurrentIssue();
+      vscode.window.showWarningMessage(`Issue ${issueId} was rolled back after a failed post-create hook`);
+      return;
+    }
+
     // Show success message and ask to open workspace
     const openNow = await vscode.window.showInformationMessage(
       `Issue ${issueId} created successfully!`,
@@ -171,10 +514,7 @@ async function openWorkspaceCommand(item?: any): Promise<void> {
   try {
     // If called from context menu, item contains issue info
     if (item && item.issue) {
-      const issue = item.issue;
-      const workspaceFile = path.join(issue.workspaceDir, `${issue.id}.code-workspace`);
-      const uri = vscode.Uri.file(workspaceFile);
-      await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: true });
+      await openIssueWorkspace(item.issue, item.project);
       return;
     }
 
@@ -206,15 +546,45 @@ async function openWorkspaceCommand(item?: any): Promise<void> {
     });
 
     if (selected) {
-      const workspaceFile = path.join(selected.issue.workspaceDir, `${selected.issue.id}.code-workspace`);
-      const uri = vscode.Uri.file(workspaceFile);
-      await vscode.commands.executeCommand('vscode.openFolder', uri, { forceNewWindow: true });
+      await openIssueWorkspace(selected.issue);
     }
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to open workspace: ${error}`);
   }
 }
 
+/**
+ * Open an issue's .code-workspace in a new window, offering to regenerate it when it is missing
+ */
+async function openIssueWorkspace(issue: Issue, project?: Project): Promise<void> {
+  const workspaceFile = path.join(issue.workspaceDir, `${issue.id}.code-workspace`);
+
+  if (!fs.existsSync(workspaceFile)) {
+    if (!fs.existsSync(issue.workspaceDir)) {
+      vscode.window.showErrorMessage(
+        `Issue directory of ${issue.id} not found: ${issue.workspaceDir}. Delete or archive the issue and create it again.`
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Workspace file of ${issue.id} is missing`,
+      { modal: true, detail: workspaceFile },
+      'Regenerate Workspace'
+    );
+    if (choice !== 'Regenerate Workspace') {
+      return;
+    }
+
+    const repaired = await vscode.commands.executeCommand<boolean>('mrm.regenerateWorkspace', { issue, project });
+    if (!repaired || !fs.existsSync(workspaceFile)) {
+      return;
+    }
+  }
+
+  await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(workspaceFile), { forceNewWindow: true });
+}
+
 /**
  * Delete Issue command
  */
@@ -267,9 +637,10 @@ async function deleteIssueCommand(item?: any): Promise<void> {
     // Confirm deletion
     const deleteBranchesChoice = await vscode.window.showWarningMessage(
       `Delete issue ${issueToDelete.id}?`,
-      { modal: true, detail: 'This will remove worktrees and workspace files.' },
+      { modal: true, detail: 'This will remove worktrees and workspace files. Archive keeps the issue so it can be restored later.' },
       'Delete (Keep Branches)',
       'Delete (Remove Branches)',
+      'Archive Instead',
       'Cancel'
     );
 
@@ -277,26 +648,79 @@ async function deleteIssueCommand(item?: any): Promise<void> {
       return;
     }
 
+    if (deleteBranchesChoice === 'Archive Instead') {
+      await vscode.commands.executeCommand('mrm.archiveIssue', {
+        issue: issueToDelete,
+        project: configManager.loadProject(projectId)
+      });
+      return;
+    }
+
     const deleteBranches = deleteBranchesChoice === 'Delete (Remove Branches)';
 
+    // Audit repos for work that would be lost
+    const audits = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Checking ${issueToDelete.id} for unsaved work...`,
+        cancellable: false
+      },
+      async () => issueService.auditIssue(projectId, issueToDelete.id)
+    );
+
+    const risks = audits.flatMap(audit => issueService.describeAuditRisks(audit, deleteBranches));
+    let archiveWork = false;
+
+    if (risks.length > 0) {
+      const report = audits.map(audit => {
+        const repoRisks = issueService.describeAuditRisks(audit, deleteBranches);
+        return repoRisks.length > 0 ? repoRisks.join('\n') : `${audit.repoName}: clean`;
+      }).join('\n');
+
+      const overrideChoice = await vscode.window.showWarningMessage(
+        `Issue ${issueToDelete.id} has work that would be lost`,
+        { modal: true, detail: report },
+        'Archive Work & Delete',
+        'Delete Anyway'
+      );
+
+      if (!overrideChoice) {
+        return;
+      }
+
+      archiveWork = overrideChoice === 'Archive Work & Delete';
+    }
+
+    // Pre-delete hooks run while the worktrees still exist (e.g., stop containers)
+    if (!await runIssueHooks(issueService, outputChannel, projectId, issueToDelete.id, 'pre_delete')) {
+      vscode.window.showInformationMessage(`Deletion of ${issueToDelete.id} cancelled`);
+      return;
+    }
+
     // Delete issue
-    await vscode.window.withProgress(
+    const archiveDir = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: `Deleting issue ${issueToDelete.id}...`,
         cancellable: false
       },
       async (progress) => {
-        const options: DeleteIssueOptions = { deleteBranches };
-        await issueService.deleteIssue(projectId, issueToDelete.id, options);
+        const options: DeleteIssueOptions = { deleteBranches, force: true, archiveWork };
+        const result = await issueService.deleteIssue(projectId, issueToDelete.id, options);
 
         // Refresh tree view and status bar
         treeProvider.refresh();
         statusBarManager.detectAndUpdateCurrentIssue();
+
+        return result;
       }
     );
 
-    vscode.window.showInformationMessage(`Issue ${issueToDelete.id} deleted successfully`);
+    vscode.window.showInformationMessage(
+      archiveDir
+        ? `Issue ${issueToDelete.id} deleted. Work archived to ${archiveDir}`
+        : `Issue ${issueToDelete.id} deleted successfully`
+    );
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to delete issue: ${error}`);
   }
@@ -306,36 +730,24 @@ async function deleteIssueCommand(item?: any): Promise<void> {
  * Refresh All command
  */
 function refreshAllCommand(): void {
+  configManager.reload();
   treeProvider.refresh();
   statusBarManager.detectAndUpdateCurrentIssue();
+  prStatusPoller.poll(true);
+  worktreeWatcher.start();
   vscode.window.showInformationMessage('Refreshed');
 }
 
 /**
- * Show Status command
+ * Show Status command - opens the issue detail panel
  */
-async function showStatusCommand(item?: any): Promise<void> {
-  if (!item || !item.issue) {
-    vscode.window.showInformationMessage('Please select an issue from the tree view');
+async function showStatusCommand(item: IssueCommandItem | undefined, context: IssueDetailContext): Promise<void> {
+  const picked = await resolveIssue(item, configManager, context.stateManager, 'Select an issue to show');
+  if (!picked) {
     return;
   }
 
-  const issue = item.issue;
-  const lines = [
-    `Issue: ${issue.id}`,
-    issue.title ? `Title: ${issue.title}` : '',
-    `Status: ${issue.status}`,
-    `Project: ${item.project.name}`,
-    `Workspace: ${issue.workspaceDir}`,
-    '',
-    'Repositories:',
-    ...issue.repos.map((r: any) => `  - ${r.name}: ${r.branch} ${r.pushed ? '✓pushed' : ''}`),
-    '',
-    `Created: ${new Date(issue.createdAt).toLocaleString()}`,
-    `Updated: ${new Date(issue.updatedAt).toLocaleString()}`
-  ].filter(Boolean);
-
-  vscode.window.showInformationMessage(lines.join('\n'));
+  IssueDetailPanel.show(picked.project, picked.issue.id, context);
 }
 
 /**
@@ -1008,7 +1420,7 @@ async function switchIssueCommand(): Promise<void> {
 async function cleanupWorkspacesCommand(): Promise<void> {
   try {
     // Get all projects
-    const projects = projectManager.listProjects();
+    const projects = configManager.loadProjects();
 
     if (projects.length === 0) {
       vscode.window.showInformationMessage('No projects found');
@@ -5,6 +5,21 @@
 
 // --- Configuration Types ---
 
+export interface ConfigIssue {
+  message: string;
+  severity: "error" | "warning";
+  line: number; // 0-based
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface BrokenProject {
+  id: string;
+  filePath: string;
+  error: string; // First error, e.g. "line 3: Missing required key \"repositories\""
+}
+
 export interface BranchNaming {
   pattern: string; // e.g., "feature/{issue_id}"
   separator: string; // e.g., "-"
@@ -17,10 +32,20 @@ export interface Config {
   github?: {
     defaultOwner?: string;
     defaultRepo?: string;
+    apiUrl?: string; // Default: "https://api.github.com"
+    token?: string; // Falls back to GITHUB_TOKEN / VS Code GitHub session
+    statusPollInterval?: number; // Seconds, 0 disables polling
   };
   gemini?: {
     model: string;
     enabled: boolean;
+    endpoint?: string; // Default: "https://generativelanguage.googleapis.com/v1beta"
+    apiKey?: string; // Falls back to GEMINI_API_KEY / VS Code secret storage
+  };
+  jira?: {
+    baseUrl?: string; // e.g., "https://example.atlassian.net"
+    email?: string; // Falls back to JIRA_EMAIL
+    token?: string; // Falls back to JIRA_API_TOKEN
   };
 }
 
@@ -29,46 +54,202 @@ export interface Config {
 export interface Repository {
   name: string;
   path: string; // Absolute path to repository
+  description?: string; // Listed in .claude.md
   default_branch?: string; // Default: "main"
   remote?: string; // Default: "origin"
+  hooks?: Hooks; // Run in the worktree
+  copy_files?: string[]; // Globs of untracked files copied from the main clone into new worktrees (e.g., .env)
+  copy_mode?: CopyMode; // Default: "copy"
 }
 
+export type CopyMode = "copy" | "symlink";
+
 export interface Project {
   id: string; // Project directory name
   name: string;
   description?: string;
   repositories: Repository[];
   branchNaming?: BranchNaming; // Override global branch naming
+  workspace?: WorkspaceTemplate; // Template for issue .code-workspace files
+  claude?: ClaudeTemplate; // Claude files copied into every worktree
+  hooks?: Hooks; // Run in the issue directory
 }
 
+/**
+ * Per-project .code-workspace template (project YAML key "workspace")
+ * Strings may contain ${repo:<name>} placeholders, resolved to that repo's worktree path;
+ * entries referencing repos that are not part of an issue are left out for that issue
+ */
+export interface WorkspaceTemplate {
+  settings?: Record<string, unknown>;
+  extensions?: string[]; // Recommended extension IDs
+  launch?: {
+    configurations?: Record<string, unknown>[];
+    compounds?: Record<string, unknown>[];
+  };
+  tasks?: Record<string, unknown>[];
+}
+
+/**
+ * Per-project Claude files for worktrees (project YAML key "claude")
+ * Relative paths are resolved against {configDir}/templates/{project}
+ */
+export interface ClaudeTemplate {
+  assets?: string[]; // Files or directories copied into each worktree (default: .claude, .claudedoc)
+  template?: string; // Rendered into each worktree's .claude.md (default: CLAUDE.md)
+}
+
+export type HookEvent = "post_create" | "pre_delete";
+
+/**
+ * One hook step: exactly one of run, copy or symlink
+ * Copy/symlink sources are relative to the main clone (repository hooks) or
+ * {configDir}/templates/{project} (project hooks); targets to the worktree or issue directory
+ */
+export interface HookStep {
+  run?: string; // Shell command
+  cwd?: string; // Working directory of run
+  copy?: string; // File or directory to copy
+  symlink?: string; // File or directory to link to (e.g., a shared cache)
+  to?: string; // Target of copy/symlink (default: same relative path)
+}
+
+export type Hooks = Partial<Record<HookEvent, HookStep[]>>;
+
 // --- Issue State Types ---
 
 export type IssueStatus = "active" | "pr_created" | "merged" | "closed";
 
+export interface PullRequestRef {
+  number: number;
+  url: string;
+  owner: string;
+  repo: string;
+}
+
+export type PullRequestState = "open" | "draft" | "merged" | "closed";
+
+export type ReviewDecision = "approved" | "changes_requested" | "review_required";
+
+export type CheckStatus = "success" | "failure" | "pending" | "none";
+
+export interface PullRequestStatus {
+  state: PullRequestState;
+  reviewDecision?: ReviewDecision;
+  checks: CheckStatus;
+}
+
 export interface RepoState {
   name: string;
   branch: string;
   worktreePath: string;
   created: boolean;
   pushed: boolean;
+  pullRequest?: PullRequestRef;
+  baseRef?: string; // Git ref the branch started from (default: {remote}/{default_branch})
+  baseBranch?: string; // Branch PRs target (default: default_branch)
+  copiedFiles?: string[]; // Local files copied from the main clone (copy_files), relative to the worktree
+  linkedFiles?: string[]; // Local files symlinked to the main clone (copy_files with copy_mode: symlink)
+}
+
+export type BaseRefKind = "branch" | "tag" | "local";
+
+export interface BaseRef {
+  kind: BaseRefKind; // branch: remote branch, tag: tag, local: local branch (e.g., another issue's branch)
+  name: string; // Branch or tag name without remote prefix (e.g., release/1.2, v1.2.0)
+}
+
+export type GitOperation = "rebase" | "merge" | "cherry-pick";
+
+export type SyncStrategy = "rebase" | "merge";
+
+export type SyncOutcome = "updated" | "up_to_date" | "conflict" | "skipped" | "failed";
+
+export interface SyncResult {
+  repoName: string;
+  baseRef: string;
+  outcome: SyncOutcome;
+  message?: string; // Reason for skipped/failed, conflicted files for conflict
+}
+
+export interface WorktreeStatus {
+  staged: number;
+  modified: number; // Unstaged changes to tracked files
+  untracked: number;
+  conflicted: number;
+  upstream?: string; // e.g., "origin/feature/SHOP-123"
+  ahead: number; // Commits ahead of upstream
+  behind: number; // Commits behind upstream
+  baseRef: string; // e.g., "origin/main"
+  baseAhead: number; // Commits ahead of base
+  baseBehind: number; // Commits behind base
+  operation?: GitOperation; // In-progress rebase/merge/cherry-pick
 }
 
 export interface Issue {
   id: string; // Issue ID (e.g., "SHOP-123")
   title?: string;
   description?: string;
+  labels?: string[];
+  trackerUrl?: string; // GitHub issue / Jira ticket URL
+  assignee?: string;
+  notes?: string; // Free-form notes (also written to .claude.md)
   projectId: string;
   status: IssueStatus;
   workspaceDir: string; // e.g., ~/workspaces/web-app/SHOP-123
   repos: RepoState[];
   createdAt: string; // ISO 8601
   updatedAt: string; // ISO 8601
+  archivedAt?: string; // ISO 8601, set while the issue is in archive.yaml
 }
 
 export interface IssuesData {
+  revision?: number; // Bumped on every write by the extension
   issues: Issue[];
 }
 
+// --- Issue Tracker Types ---
+
+export type TrackerType = "github" | "jira";
+
+export interface TrackerIssue {
+  tracker: TrackerType;
+  key: string; // Suggested issue ID (e.g., "SHOP-123", "my-repo-42")
+  title: string;
+  body?: string;
+  labels: string[];
+  url: string;
+}
+
+// --- Commit Types ---
+
+export interface FileChange {
+  path: string;
+  status: string; // Porcelain code (e.g., M, A, D, R, ??)
+  from?: string; // Original path of a rename
+}
+
+export interface RepoChanges {
+  repoName: string;
+  worktreePath: string;
+  files: FileChange[];
+}
+
+export interface CommitResult {
+  repoName: string;
+  commit?: string; // Short hash of the new commit
+  error?: string;
+}
+
+export type PushOutcome = "pushed" | "up_to_date" | "skipped" | "failed";
+
+export interface PushResult {
+  repoName: string;
+  outcome: PushOutcome;
+  message?: string;
+  diverged?: boolean; // Local and remote branch both have commits; only a force push can publish
+}
+
 // --- Operation Options ---
 
 export interface CreateIssueOptions {
@@ -76,11 +257,98 @@ export interface CreateIssueOptions {
   issueId: string;
   title?: string;
   description?: string;
+  labels?: string[];
+  trackerUrl?: string;
+  repos?: string[]; // Repository names to include (default: all)
+  base?: BaseRef; // Starting point for all repos (default: project default branch)
+  repoBases?: Record<string, BaseRef>; // Starting point per repo name (overrides base)
+}
+
+/**
+ * Editable issue metadata; only the fields present are changed, empty values clear them
+ */
+export interface IssueMetadata {
+  title?: string;
+  description?: string;
+  labels?: string[];
+  assignee?: string;
+  trackerUrl?: string;
+  notes?: string;
+}
+
+export interface CloseIssueOptions {
+  removeWorktrees?: boolean; // Remove worktrees (branches and the state record are kept)
+  force?: boolean; // Remove worktrees even with uncommitted changes
 }
 
 export interface DeleteIssueOptions {
   deleteBranches?: boolean; // Delete git branches (default: false)
-  force?: boolean; // Force delete without confirmation
+  force?: boolean; // Force delete without confirmation (skips the pre-delete audit)
+  archiveWork?: boolean; // Save uncommitted/unpushed work under {configDir}/archive before deleting
+}
+
+/**
+ * A generated issue file (.code-workspace or .claude.md) whose content differs from the file on disk
+ */
+export interface WorkspaceFileChange {
+  filePath: string;
+  currentContent?: string; // Undefined when the file is missing
+  newContent: string;
+}
+
+export interface RepoAudit {
+  repoName: string;
+  branch: string;
+  worktreePath: string;
+  worktreeExists: boolean;
+  dirtyFiles: string[]; // Uncommitted changes and untracked files
+  stashes: string[]; // Stashes made on the issue branch
+  unpushedCommits: string[]; // "<sha> <subject>", not on any remote
+  mergedIntoBase: boolean;
+  error?: string;
+}
+
+export interface PRDraft {
+  title: string;
+  body: string;
+}
+
+export interface CreatePROptions {
+  draft?: boolean;
+  drafts?: Record<string, PRDraft>; // repo.name -> title/body for new PRs
+}
+
+export interface PRResult {
+  repoName: string;
+  pullRequest?: PullRequestRef;
+  created: boolean; // false if an existing PR was reused
+  error?: string;
+}
+
+// --- AI Review Types ---
+
+export interface RepoChangeset {
+  repoName: string;
+  branch: string;
+  baseRef: string; // e.g., "origin/main"
+  worktreePath: string;
+  commits: string[]; // "<sha> <subject>", oldest last
+  diff: string;
+}
+
+export type ReviewSeverity = "error" | "warning" | "info";
+
+export interface ReviewFinding {
+  repo: string; // RepoState.name
+  file: string; // Path relative to the worktree
+  line: number; // 1-based
+  severity: ReviewSeverity;
+  message: string;
+}
+
+export interface ReviewResult {
+  summary: string;
+  findings: ReviewFinding[];
 }
 
 // --- TreeView Types ---
@@ -93,3 +361,17 @@ export interface TreeItemContext {
   issueId?: string;
   repoName?: string;
 }
+
+export type IssueGroupBy = "none" | "status" | "created" | "updated";
+
+export type IssueSortBy = "file" | "updated" | "created" | "id";
+
+/**
+ * Filter, grouping and sorting of issues in the Projects tree (persisted per workspace)
+ */
+export interface IssueViewOptions {
+  statuses: IssueStatus[]; // Empty = all statuses
+  search: string; // Matched against ID, title and description (case-insensitive)
+  groupBy: IssueGroupBy;
+  sortBy: IssueSortBy;
+}
@@ -0,0 +1,68 @@
+/**
+ * Changeset service - collects an issue's changes across all of its repos
+ */
+
+import { GitService, resolveBaseRef } from './gitService';
+import { StateManager } from './stateManager';
+import { ConfigManager } from '../config/configManager';
+import { RepoChangeset } from '../models/types';
+
+const MAX_DIFF_CHARS = 100000; // Per repo, keeps prompts within model limits
+
+export class ChangesetService {
+  private gitService: GitService;
+
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager
+  ) {
+    this.gitService = new GitService();
+  }
+
+  /**
+   * Collect the diff and commit log of every repo branch against its base branch
+   * Repos without changes are omitted
+   */
+  async collectChangeset(projectId: string, issueId: string): Promise<RepoChangeset[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const changesets: RepoChangeset[] = [];
+
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo || !await this.gitService.worktreeExists(repoState.worktreePath)) {
+        continue;
+      }
+
+      const baseRef = resolveBaseRef(repo, repoState);
+      let diff = await this.gitService.getDiffFromBase(repoState.worktreePath, baseRef);
+
+      if (!diff.trim()) {
+        continue;
+      }
+
+      if (diff.length > MAX_DIFF_CHARS) {
+        diff = `${diff.substring(0, MAX_DIFF_CHARS)}\n... (diff truncated)\n`;
+      }
+
+      changesets.push({
+        repoName: repoState.name,
+        branch: repoState.branch,
+        baseRef,
+        worktreePath: repoState.worktreePath,
+        commits: await this.gitService.getCommitLog(repoState.worktreePath, baseRef),
+        diff
+      });
+    }
+
+    return changesets;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Commit service - commits and pushes an issue's worktrees together
+ */
+
+import { GitService, resolveBaseRef } from './gitService';
+import { StateManager } from './stateManager';
+import { ConfigManager } from '../config/configManager';
+import { CommitResult, FileChange, PushResult, RepoChanges } from '../models/types';
+
+export class CommitService {
+  private gitService: GitService;
+
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager
+  ) {
+    this.gitService = new GitService();
+  }
+
+  /**
+   * List changed files of every worktree of an issue
+   * Repos without changes or with a rebase/merge in progress are omitted
+   */
+  async getChanges(projectId: string, issueId: string): Promise<RepoChanges[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const changes: RepoChanges[] = [];
+
+    for (const repoState of issue.repos) {
+      if (!await this.gitService.worktreeExists(repoState.worktreePath)) {
+        continue;
+      }
+
+      if (await this.gitService.getInProgressOperation(repoState.worktreePath)) {
+        continue;
+      }
+
+      const files = await this.gitService.getFileChanges(repoState.worktreePath);
+      if (files.length > 0) {
+        changes.push({ repoName: repoState.name, worktreePath: repoState.worktreePath, files });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Commit the selected files of each repo with one shared message
+   */
+  async commitAll(
+    projectId: string,
+    issueId: string,
+    selections: Map<string, FileChange[]>, // repo.name -> files to commit
+    message: string
+  ): Promise<CommitResult[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const results: CommitResult[] = [];
+
+    for (const [repoName, files] of selections) {
+      const repoState = issue.repos.find(r => r.name === repoName);
+      if (!repoState || files.length === 0) {
+        continue;
+      }
+
+      try {
+        const commit = await this.gitService.commitFiles(repoState.worktreePath, files, message);
+        results.push({ repoName, commit });
+      } catch (error) {
+        results.push({ repoName, error: `${error}` });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Push every issue branch that has commits to publish and record it as pushed
+   * force uses --force-with-lease, limited to repoNames when given
+   */
+  async pushAll(
+    projectId: string,
+    issueId: string,
+    options: { force?: boolean; repoNames?: string[] } = {},
+    onProgress?: (message: string) => void
+  ): Promise<PushResult[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const results: PushResult[] = [];
+
+    for (const repoState of issue.repos) {
+      if (options.repoNames && !options.repoNames.includes(repoState.name)) {
+        continue;
+      }
+
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        results.push({ repoName: repoState.name, outcome: 'failed', message: 'Repository not in project' });
+        continue;
+      }
+
+      try {
+        if (!await this.gitService.worktreeExists(repoState.worktreePath)) {
+          results.push({ repoName: repoState.name, outcome: 'skipped', message: 'Worktree missing' });
+          continue;
+        }
+
+        const status = await this.gitService.getWorktreeStatus(repoState.worktreePath, resolveBaseRef(repo, repoState));
+        if (status.upstream && status.ahead === 0) {
+          results.push(status.behind === 0
+            ? { repoName: repoState.name, outcome: 'up_to_date' }
+            : { repoName: repoState.name, outcome: 'skipped', message: `Behind ${status.upstream}, nothing to push` });
+          continue;
+        }
+        if (status.upstream && status.behind > 0 && !options.force) {
+          results.push({
+            repoName: repoState.name,
+            outcome: 'failed',
+            message: `Diverged from ${status.upstream} (${status.ahead} ahead, ${status.behind} behind)`,
+            diverged: true
+          });
+          continue;
+        }
+        if (!status.upstream && status.baseAhead === 0) {
+          results.push({ repoName: repoState.name, outcome: 'skipped', message: 'No commits' });
+          continue;
+        }
+
+        onProgress?.(`Pushing ${repoState.name}...`);
+        await this.gitService.pushBranch(repoState.worktreePath, repoState.branch, repo.remote || 'origin', options.force);
+        repoState.pushed = true;
+        results.push({ repoName: repoState.name, outcome: 'pushed' });
+      } catch (error) {
+        results.push({ repoName: repoState.name, outcome: 'failed', message: `${error}` });
+      }
+    }
+
+    if (results.some(r => r.outcome === 'pushed')) {
+      issue.updatedAt = new Date().toISOString();
+      await this.stateManager.saveIssue(projectId, issue);
+    }
+
+    return results;
+  }
+}
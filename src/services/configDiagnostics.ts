@@ -0,0 +1,104 @@
+/**
+ * Config diagnostics - reports problems in projects/*.yaml and config.yaml in the Problems view
+ * Open documents are validated as they are edited, other files from disk
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+import { getProjectsDir } from '../config/paths';
+import { validateConfigFile, validateProjectFile } from '../config/configValidator';
+import { ConfigIssue } from '../models/types';
+
+export class ConfigDiagnostics implements vscode.Disposable {
+  private diagnostics: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private configManager: ConfigManager) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('mrm-config');
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(doc => this.validateDocument(doc)),
+      vscode.workspace.onDidChangeTextDocument(e => this.validateDocument(e.document)),
+      vscode.workspace.onDidCloseTextDocument(doc => {
+        // Fall back to the file on disk (e.g., unsaved edits discarded)
+        const validate = this.getValidator(doc.uri.fsPath);
+        if (validate && fs.existsSync(doc.uri.fsPath)) {
+          this.setDiagnostics(doc.uri, validate(fs.readFileSync(doc.uri.fsPath, 'utf-8')));
+        }
+      })
+    );
+  }
+
+  /**
+   * Validate config.yaml and every project file
+   */
+  validateAll(): void {
+    this.diagnostics.clear();
+
+    const files: string[] = [path.join(this.configManager.getConfigDir(), 'config.yaml')];
+    const projectsDir = getProjectsDir(this.configManager.getConfigDir());
+    if (fs.existsSync(projectsDir)) {
+      files.push(...fs.readdirSync(projectsDir)
+        .filter(file => file.endsWith('.yaml') || file.endsWith('.yml'))
+        .map(file => path.join(projectsDir, file)));
+    }
+
+    for (const filePath of files) {
+      const validate = this.getValidator(filePath);
+      if (!validate || !fs.existsSync(filePath)) {
+        continue;
+      }
+
+      const uri = vscode.Uri.file(filePath);
+      const openDocument = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+      try {
+        this.setDiagnostics(uri, validate(openDocument ? openDocument.getText() : fs.readFileSync(filePath, 'utf-8')));
+      } catch (error) {
+        console.warn(`Failed to validate ${filePath}: ${error}`);
+      }
+    }
+  }
+
+  private validateDocument(doc: vscode.TextDocument): void {
+    const validate = this.getValidator(doc.uri.fsPath);
+    if (validate) {
+      this.setDiagnostics(doc.uri, validate(doc.getText()));
+    }
+  }
+
+  /**
+   * Get validator for a config file path (undefined for unrelated files)
+   */
+  private getValidator(filePath: string): ((content: string) => ConfigIssue[]) | undefined {
+    const configDir = this.configManager.getConfigDir();
+
+    if (filePath === path.join(configDir, 'config.yaml')) {
+      return validateConfigFile;
+    }
+    if (path.dirname(filePath) === getProjectsDir(configDir) && /\.ya?ml$/.test(filePath)) {
+      return validateProjectFile;
+    }
+    return undefined;
+  }
+
+  private setDiagnostics(uri: vscode.Uri, issues: ConfigIssue[]): void {
+    this.diagnostics.set(uri, issues.map(issue => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(issue.line, issue.column, issue.endLine, issue.endColumn),
+        issue.message,
+        issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'MRM';
+      return diagnostic;
+    }));
+  }
+
+  dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.diagnostics.dispose();
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Config watcher - signals when config.yaml, projects/*.yaml, data/{project}/{issues,archive}.yaml
+ * or mrm.* settings change (CLI, other windows, manual edits)
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+
+const DEBOUNCE_MS = 500;
+
+export interface ConfigChange {
+  config: boolean; // config.yaml or mrm.* settings
+  projects: boolean; // projects/*.yaml
+  issueProjects: string[]; // Project IDs whose issues.yaml or archive.yaml changed
+}
+
+export class ConfigWatcher implements vscode.Disposable {
+  private watchers: vscode.Disposable[] = [];
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private pending: ConfigChange = { config: false, projects: false, issueProjects: [] };
+
+  private _onDidChange: vscode.EventEmitter<ConfigChange> = new vscode.EventEmitter<ConfigChange>();
+  readonly onDidChange: vscode.Event<ConfigChange> = this._onDidChange.event;
+
+  constructor(private configManager: ConfigManager) {}
+
+  /**
+   * (Re)create watchers for the current config directory and settings
+   */
+  start(): void {
+    this.stopWatchers();
+
+    const configDir = vscode.Uri.file(this.configManager.getConfigDir());
+
+    this.watch(new vscode.RelativePattern(configDir, 'config.yaml'), () => {
+      this.pending.config = true;
+    });
+    this.watch(new vscode.RelativePattern(configDir, 'projects/*.{yaml,yml}'), () => {
+      this.pending.projects = true;
+    });
+    this.watch(new vscode.RelativePattern(configDir, 'data/*/{issues,archive}.yaml'), (uri) => {
+      const projectId = path.basename(path.dirname(uri.fsPath));
+      if (!this.pending.issueProjects.includes(projectId)) {
+        this.pending.issueProjects.push(projectId);
+      }
+    });
+
+    this.watchers.push(vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('mrm')) {
+        this.pending.config = true;
+        this.schedule();
+      }
+    }));
+  }
+
+  private watch(pattern: vscode.RelativePattern, record: (uri: vscode.Uri) => void): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const handler = (uri: vscode.Uri) => {
+      record(uri);
+      this.schedule();
+    };
+    watcher.onDidCreate(handler);
+    watcher.onDidChange(handler);
+    watcher.onDidDelete(handler);
+    this.watchers.push(watcher);
+  }
+
+  /**
+   * Debounce bursts of writes (e.g., CLI rewriting several files) into one change
+   */
+  private schedule(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      const change = this.pending;
+      this.pending = { config: false, projects: false, issueProjects: [] };
+      this._onDidChange.fire(change);
+    }, DEBOUNCE_MS);
+  }
+
+  private stopWatchers(): void {
+    for (const watcher of this.watchers) {
+      watcher.dispose();
+    }
+    this.watchers = [];
+  }
+
+  dispose(): void {
+    this.stopWatchers();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this._onDidChange.dispose();
+  }
+}
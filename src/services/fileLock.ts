@@ -0,0 +1,116 @@
+/**
+ * Advisory file locks and atomic writes for data files shared with the CLI and other windows
+ * Lock file: {file}.lock containing {"pid", "host", "createdAt"}
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+const STALE_LOCK_MS = 30000; // Locks are held for one read-modify-write only
+
+/**
+ * Run fn while holding the advisory lock of filePath
+ * fn should be synchronous so the lock is held only for the read-modify-write itself
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  await acquireLock(lockPath);
+
+  try {
+    return fn();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Write a file via temp file + rename so readers never see a partial file
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  try {
+    fs.writeFileSync(tempPath, content, 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      fs.unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, host: os.hostname(), createdAt: new Date().toISOString() }));
+      fs.closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (isStaleLock(lockPath)) {
+      console.warn(`Removing stale lock ${lockPath}`);
+      try {
+        fs.unlinkSync(lockPath);
+      } catch (error) {
+        // Removed by another process in the meantime
+      }
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    const owner = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+    if (owner.pid === process.pid && owner.host === os.hostname()) {
+      fs.unlinkSync(lockPath);
+    }
+  } catch (error) {
+    console.warn(`Failed to release lock ${lockPath}: ${error}`);
+  }
+}
+
+/**
+ * A lock is stale when it is too old or its owner process on this host is gone
+ */
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+      return true;
+    }
+
+    const owner = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+    if (owner.host === os.hostname() && typeof owner.pid === 'number') {
+      try {
+        process.kill(owner.pid, 0);
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'ESRCH';
+      }
+    }
+    return false;
+  } catch (error) {
+    // Lock file vanished or is being written; retry
+    return false;
+  }
+}
@@ -5,16 +5,18 @@
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as path from 'path';
 import * as fs from 'fs';
+import { FileChange, GitOperation, RepoState, Repository, SyncStrategy, WorktreeStatus } from '../models/types';
 
 export class GitService {
   /**
    * Create a new worktree with a new branch
+   * baseRef is the starting point of a new branch (remote branch, tag or local branch)
    */
   async createWorktree(
     repoPath: string,
     worktreePath: string,
     branchName: string,
-    baseBranch: string = 'main'
+    baseRef: string = 'origin/main'
   ): Promise<void> {
     const git: SimpleGit = simpleGit(repoPath);
 
@@ -33,14 +35,16 @@ export class GitService {
       ]);
     } else {
       // Create worktree with new branch
-      // git worktree add -b <branch> <path> <base-branch>
+      // git worktree add --no-track -b <branch> <path> <base-ref>
+      // (--no-track: upstream is set on first push, not to the base branch)
       await git.raw([
         'worktree',
         'add',
+        '--no-track',
         '-b',
         branchName,
         worktreePath,
-        `origin/${baseBranch}`
+        baseRef
       ]);
     }
   }
@@ -55,6 +59,24 @@ export class GitService {
     await git.raw(['worktree', 'remove', worktreePath, '--force']);
   }
 
+  /**
+   * Move a worktree to a new path (parent directory must exist)
+   */
+  async moveWorktree(repoPath: string, worktreePath: string, newPath: string): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    await git.raw(['worktree', 'move', worktreePath, newPath]);
+  }
+
+  /**
+   * Drop metadata of worktrees whose directories no longer exist
+   */
+  async pruneWorktrees(repoPath: string): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    await git.raw(['worktree', 'prune']);
+  }
+
   /**
    * Delete a branch (local)
    */
@@ -65,6 +87,15 @@ export class GitService {
     await git.raw(['branch', flag, branchName]);
   }
 
+  /**
+   * Rename a local branch (also when checked out in a worktree)
+   */
+  async renameBranch(repoPath: string, branchName: string, newName: string): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    await git.raw(['branch', '-m', branchName, newName]);
+  }
+
   /**
    * Check if a worktree exists
    */
@@ -111,6 +142,48 @@ export class GitService {
     }
   }
 
+  /**
+   * List remote branches and tags usable as a base ref, most recent first
+   * Fetches the remote first; falls back to the known refs when offline
+   */
+  async listBaseRefs(repoPath: string, remote: string = 'origin'): Promise<{
+    branches: string[];
+    tags: string[];
+  }> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    try {
+      await git.fetch([remote, '--tags']);
+    } catch (error) {
+      console.warn(`Failed to fetch ${remote} in ${repoPath}: ${error}`);
+    }
+
+    const output = await git.raw([
+      'for-each-ref',
+      '--sort=-creatordate',
+      '--format=%(refname)',
+      `refs/remotes/${remote}`,
+      'refs/tags'
+    ]);
+
+    const branches: string[] = [];
+    const tags: string[] = [];
+    const remotePrefix = `refs/remotes/${remote}/`;
+
+    for (const ref of output.split('\n').map(line => line.trim()).filter(line => line.length > 0)) {
+      if (ref.startsWith(remotePrefix)) {
+        const name = ref.substring(remotePrefix.length);
+        if (name !== 'HEAD') {
+          branches.push(name);
+        }
+      } else if (ref.startsWith('refs/tags/')) {
+        tags.push(ref.substring('refs/tags/'.length));
+      }
+    }
+
+    return { branches, tags };
+  }
+
   /**
    * Get branch status (created, pushed, etc.)
    */
@@ -136,6 +209,267 @@ export class GitService {
     return { created, pushed };
   }
 
+  /**
+   * Get live status of a worktree: changes, upstream/base divergence and in-progress operation
+   */
+  async getWorktreeStatus(worktreePath: string, baseRef: string): Promise<WorktreeStatus> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const status = await git.status();
+    const conflicted = new Set(status.conflicted);
+    const files = status.files.filter(f => !conflicted.has(f.path));
+
+    let baseAhead = 0;
+    let baseBehind = 0;
+    try {
+      // Output: "<ahead>\t<behind>"
+      const counts = await git.raw(['rev-list', '--left-right', '--count', `HEAD...${baseRef}`]);
+      const [ahead, behind] = counts.trim().split(/\s+/).map(n => parseInt(n, 10));
+      baseAhead = ahead || 0;
+      baseBehind = behind || 0;
+    } catch (error) {
+      // Base ref not available locally (not fetched yet)
+    }
+
+    return {
+      staged: files.filter(f => f.index !== ' ' && f.index !== '?' && f.index !== '!').length,
+      modified: files.filter(f => f.working_dir === 'M' || f.working_dir === 'D').length,
+      untracked: status.not_added.length,
+      conflicted: status.conflicted.length,
+      upstream: status.tracking || undefined,
+      ahead: status.ahead,
+      behind: status.behind,
+      baseRef,
+      baseAhead,
+      baseBehind,
+      operation: await this.getInProgressOperation(worktreePath)
+    };
+  }
+
+  /**
+   * Detect an in-progress rebase, merge or cherry-pick in a worktree
+   */
+  async getInProgressOperation(worktreePath: string): Promise<GitOperation | undefined> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    // Worktrees have their own git dir (e.g., <repo>/.git/worktrees/<name>)
+    const gitDir = path.resolve(worktreePath, (await git.revparse(['--git-dir'])).trim());
+
+    if (fs.existsSync(path.join(gitDir, 'rebase-merge')) || fs.existsSync(path.join(gitDir, 'rebase-apply'))) {
+      return 'rebase';
+    }
+    if (fs.existsSync(path.join(gitDir, 'MERGE_HEAD'))) {
+      return 'merge';
+    }
+    if (fs.existsSync(path.join(gitDir, 'CHERRY_PICK_HEAD'))) {
+      return 'cherry-pick';
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetch branches and tags of a remote
+   */
+  async fetchRemote(repoPath: string, remote: string = 'origin'): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    await git.fetch([remote, '--tags']);
+  }
+
+  /**
+   * Rebase or merge the branch checked out in a worktree onto a base ref
+   * On conflicts the operation is left in progress (see getInProgressOperation)
+   */
+  async integrateBase(worktreePath: string, baseRef: string, strategy: SyncStrategy): Promise<void> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    if (strategy === 'rebase') {
+      await git.raw(['rebase', baseRef]);
+    } else {
+      await git.raw(['merge', '--no-edit', baseRef]);
+    }
+  }
+
+  /**
+   * Continue an in-progress rebase, merge or cherry-pick without opening an editor
+   */
+  async continueOperation(worktreePath: string, operation: GitOperation): Promise<void> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    await git.raw(['-c', 'core.editor=true', operation, '--continue']);
+  }
+
+  /**
+   * Abort an in-progress rebase, merge or cherry-pick
+   */
+  async abortOperation(worktreePath: string, operation: GitOperation): Promise<void> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    await git.raw([operation, '--abort']);
+  }
+
+  /**
+   * List files with unresolved conflicts in a worktree
+   */
+  async getConflictedFiles(worktreePath: string): Promise<string[]> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const status = await git.status();
+    return status.conflicted;
+  }
+
+  /**
+   * List uncommitted changes and untracked files in a worktree
+   */
+  async getDirtyFiles(worktreePath: string): Promise<string[]> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const status = await git.status();
+    return status.files.map(f => f.path);
+  }
+
+  /**
+   * List changed files of a worktree with their porcelain status
+   */
+  async getFileChanges(worktreePath: string): Promise<FileChange[]> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const status = await git.status();
+    return status.files.map(f => ({
+      path: f.path,
+      status: f.index === '?' ? '??' : (f.index.trim() || f.working_dir.trim()),
+      from: f.from && f.from !== f.path ? f.from : undefined
+    }));
+  }
+
+  /**
+   * Stage and commit only the given paths (other staged changes stay staged)
+   * Returns the short hash of the new commit
+   */
+  async commitFiles(worktreePath: string, files: FileChange[], message: string): Promise<string> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    // Renames are already staged; the original path only needs to be part of the commit
+    const paths = files.map(f => f.path);
+    const renamedFrom = files.filter(f => f.from).map(f => f.from as string);
+
+    await git.raw(['add', '-A', '--', ...paths]);
+    await git.raw(['commit', '-m', message, '--', ...paths, ...renamedFrom]);
+
+    return (await git.revparse(['--short', 'HEAD'])).trim();
+  }
+
+  /**
+   * List untracked (not ignored) files in a worktree
+   */
+  async getUntrackedFiles(worktreePath: string): Promise<string[]> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const status = await git.status();
+    return status.not_added;
+  }
+
+  /**
+   * List stashes made on a branch (stashes are shared by all worktrees of a repo)
+   * Returns entries like "stash@{0} WIP on feature/SHOP-123: abc1234 message"
+   */
+  async listBranchStashes(repoPath: string, branchName: string): Promise<string[]> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    const output = await git.raw(['stash', 'list', '--format=%gd %gs']);
+    return output
+      .split('\n')
+      .filter(line => line.includes(` on ${branchName}:`));
+  }
+
+  /**
+   * List commits on a branch that are not on any remote-tracking branch
+   */
+  async getUnpushedCommits(repoPath: string, branchName: string, remote: string = 'origin'): Promise<string[]> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    const output = await git.raw(['log', '--format=%h %s', branchName, '--not', `--remotes=${remote}`]);
+    return output.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Check if a branch is fully merged into a ref
+   */
+  async isMergedInto(repoPath: string, branchName: string, ref: string): Promise<boolean> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    try {
+      // Commits on the branch that the ref does not contain
+      const count = await git.raw(['rev-list', '--count', `${ref}..${branchName}`]);
+      return parseInt(count.trim(), 10) === 0;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Write uncommitted changes to tracked files as a binary patch
+   */
+  async createWorkingTreePatch(worktreePath: string, patchFile: string): Promise<boolean> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const patch = await git.raw(['diff', 'HEAD', '--binary']);
+    if (!patch.trim()) {
+      return false;
+    }
+
+    fs.writeFileSync(patchFile, patch, 'utf-8');
+    return true;
+  }
+
+  /**
+   * Write a stash as a patch
+   */
+  async createStashPatch(repoPath: string, stashRef: string, patchFile: string): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    const patch = await git.raw(['stash', 'show', '-p', '--binary', stashRef]);
+    fs.writeFileSync(patchFile, patch, 'utf-8');
+  }
+
+  /**
+   * Bundle the commits of a branch that are not on any remote-tracking branch
+   */
+  async createUnpushedBundle(
+    repoPath: string,
+    branchName: string,
+    bundleFile: string,
+    remote: string = 'origin'
+  ): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    await git.raw(['bundle', 'create', bundleFile, branchName, '--not', `--remotes=${remote}`]);
+  }
+
+  /**
+   * Get the diff of a worktree (committed and uncommitted changes) since it forked from a base ref
+   */
+  async getDiffFromBase(worktreePath: string, baseRef: string): Promise<string> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const mergeBase = (await git.raw(['merge-base', 'HEAD', baseRef])).trim();
+    if (!mergeBase) {
+      throw new Error(`No common ancestor with ${baseRef}`);
+    }
+
+    return git.raw(['diff', mergeBase]);
+  }
+
+  /**
+   * List commits on HEAD since a base ref ("<sha> <subject>", newest first)
+   */
+  async getCommitLog(worktreePath: string, baseRef: string): Promise<string[]> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const output = await git.raw(['log', '--format=%h %s', `${baseRef}..HEAD`]);
+    return output.split('\n').filter(Boolean);
+  }
+
   /**
    * Get organization name from remote URL
    * Supports: git@host:{org}/{repo}.git, ssh://git@host/{org}/{repo}.git, https://host/{org}/{repo}.git
@@ -167,6 +501,107 @@ export class GitService {
     throw new Error(`Failed to parse org from remote URL: ${url}`);
   }
 
+  /**
+   * Get owner and repository name from remote URL
+   * Supports the same URL formats as getOrgFromRemote
+   */
+  async getRepoSlugFromRemote(repoPath: string, remote: string = 'origin'): Promise<{
+    owner: string;
+    repo: string;
+  }> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    const remoteUrl = await git.raw(['remote', 'get-url', remote]);
+    const url = remoteUrl.trim();
+
+    const match =
+      url.match(/^ssh:\/\/git@[^/]+\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/) ||
+      url.match(/^git@[^:]+:([^/]+)\/([^/]+?)(?:\.git)?\/?$/) ||
+      url.match(/^https?:\/\/[^/]+\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+
+    if (!match) {
+      throw new Error(`Failed to parse repository from remote URL: ${url}`);
+    }
+
+    return { owner: match[1], repo: match[2] };
+  }
+
+  /**
+   * Push a branch from a worktree and set its upstream; returns the branch name on the remote
+   * A branch already tracking a branch of the remote keeps pushing there, even under another
+   * local name (e.g., after an issue rename), so its pull request stays attached
+   * force uses --force-with-lease (e.g., after a rebase)
+   */
+  async pushBranch(
+    worktreePath: string,
+    branchName: string,
+    remote: string = 'origin',
+    force: boolean = false
+  ): Promise<string> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const remoteBranch = await this.getUpstreamBranch(worktreePath, branchName, remote) || branchName;
+    await git.push([...(force ? ['--force-with-lease'] : []), '-u', remote, `${branchName}:${remoteBranch}`]);
+    return remoteBranch;
+  }
+
+  /**
+   * Get the name of the remote branch a local branch tracks, if it tracks one on that remote
+   */
+  async getUpstreamBranch(repoPath: string, branchName: string, remote: string = 'origin'): Promise<string | undefined> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    try {
+      const upstreamRemote = (await git.raw(['config', '--get', `branch.${branchName}.remote`])).trim();
+      const merge = (await git.raw(['config', '--get', `branch.${branchName}.merge`])).trim();
+      return upstreamRemote === remote && merge.startsWith('refs/heads/') ? merge.slice('refs/heads/'.length) : undefined;
+    } catch (error) {
+      // No upstream configured
+      return undefined;
+    }
+  }
+
+  /**
+   * List untracked files (ignored ones included) matching glob patterns, relative to the repository root
+   * Patterns use git's glob pathspec magic: * does not match /, ** matches any directories
+   */
+  async listUntrackedMatches(repoPath: string, patterns: string[]): Promise<string[]> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    const output = await git.raw(['ls-files', '--others', '-z', '--', ...patterns.map(pattern => `:(glob)${pattern}`)]);
+    return output.split('\0').filter(Boolean);
+  }
+
+  /**
+   * Check whether a path is tracked in a worktree
+   */
+  async isTracked(worktreePath: string, relativePath: string): Promise<boolean> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const files = await git.raw(['ls-files', '--', relativePath]);
+    return files.trim() !== '';
+  }
+
+  /**
+   * Add patterns to the repository's info/exclude (shared by all worktrees of the repo)
+   */
+  async addExcludes(worktreePath: string, patterns: string[]): Promise<void> {
+    const git: SimpleGit = simpleGit(worktreePath);
+
+    const commonDir = path.resolve(worktreePath, (await git.revparse(['--git-common-dir'])).trim());
+    const excludeFile = path.join(commonDir, 'info', 'exclude');
+
+    const content = fs.existsSync(excludeFile) ? fs.readFileSync(excludeFile, 'utf-8') : '';
+    const lines = content.split('\n').map(line => line.trim());
+    const missing = patterns.filter(pattern => !lines.includes(pattern));
+    if (missing.length === 0) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(excludeFile), { recursive: true });
+    fs.appendFileSync(excludeFile, `${content && !content.endsWith('\n') ? '\n' : ''}${missing.join('\n')}\n`, 'utf-8');
+  }
+
   /**
    * Validate repository path
    */
@@ -180,3 +615,17 @@ export class GitService {
     }
   }
 }
+
+/**
+ * Git ref an issue branch is compared and rebased against
+ */
+export function resolveBaseRef(repo: Repository, repoState?: RepoState): string {
+  return repoState?.baseRef || `${repo.remote || 'origin'}/${repo.default_branch || 'main'}`;
+}
+
+/**
+ * Branch pull requests of an issue branch target
+ */
+export function resolveBaseBranch(repo: Repository, repoState?: RepoState): string {
+  return repoState?.baseBranch || repo.default_branch || 'main';
+}
@@ -0,0 +1,256 @@
+/**
+ * GitHub service for pull request and issue operations (via @octokit/rest)
+ */
+
+import * as vscode from 'vscode';
+import { Octokit } from '@octokit/rest';
+import {
+  CheckStatus,
+  Config,
+  PullRequestRef,
+  PullRequestStatus,
+  ReviewDecision,
+  TrackerIssue
+} from '../models/types';
+
+export interface GitHubServiceOptions {
+  baseUrl: string; // e.g., "https://api.github.com" or a local mock server
+  token?: string;
+}
+
+export interface CreatePullRequestParams {
+  owner: string;
+  repo: string;
+  head: string;
+  base: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+}
+
+export class GitHubService {
+  private octokit: Octokit;
+
+  constructor(options: GitHubServiceOptions) {
+    this.octokit = new Octokit({
+      baseUrl: options.baseUrl.replace(/\/+$/, ''),
+      auth: options.token
+    });
+  }
+
+  /**
+   * Create a GitHub service from configuration
+   * Token: config.yaml / GITHUB_TOKEN, otherwise the VS Code GitHub session
+   */
+  static async create(config: Config): Promise<GitHubService> {
+    let token = config.github?.token;
+
+    if (!token) {
+      const session = await vscode.authentication.getSession('github', ['repo'], {
+        createIfNone: true
+      });
+      token = session.accessToken;
+    }
+
+    return GitHubService.fromConfig(config, token);
+  }
+
+  /**
+   * Create a GitHub service without prompting for sign-in (for background work)
+   * Returns undefined if no token or existing session is available
+   */
+  static async createSilent(config: Config): Promise<GitHubService | undefined> {
+    let token = config.github?.token;
+
+    if (!token) {
+      const session = await vscode.authentication.getSession('github', ['repo'], {
+        silent: true
+      });
+      token = session?.accessToken;
+    }
+
+    return token ? GitHubService.fromConfig(config, token) : undefined;
+  }
+
+  private static fromConfig(config: Config, token: string): GitHubService {
+    return new GitHubService({
+      baseUrl: config.github?.apiUrl || 'https://api.github.com',
+      token
+    });
+  }
+
+  /**
+   * Find an open pull request for a head branch
+   */
+  async findOpenPullRequest(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<PullRequestRef | undefined> {
+    const { data } = await this.octokit.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${branch}`,
+      state: 'open'
+    });
+
+    if (data.length === 0) {
+      return undefined;
+    }
+
+    return { number: data[0].number, url: data[0].html_url, owner, repo };
+  }
+
+  /**
+   * Create a pull request
+   */
+  async createPullRequest(params: CreatePullRequestParams): Promise<PullRequestRef> {
+    const { data } = await this.octokit.pulls.create({
+      owner: params.owner,
+      repo: params.repo,
+      head: params.head,
+      base: params.base,
+      title: params.title,
+      body: params.body,
+      draft: params.draft
+    });
+
+    return { number: data.number, url: data.html_url, owner: params.owner, repo: params.repo };
+  }
+
+  /**
+   * Get the body of a pull request
+   */
+  async getPullRequestBody(pr: PullRequestRef): Promise<string> {
+    const { data } = await this.octokit.pulls.get({
+      owner: pr.owner,
+      repo: pr.repo,
+      pull_number: pr.number
+    });
+
+    return data.body || '';
+  }
+
+  /**
+   * Replace the body of a pull request
+   */
+  async updatePullRequestBody(pr: PullRequestRef, body: string): Promise<void> {
+    await this.octokit.pulls.update({
+      owner: pr.owner,
+      repo: pr.repo,
+      pull_number: pr.number,
+      body
+    });
+  }
+
+  /**
+   * Get a GitHub issue as tracker data
+   */
+  async getIssue(owner: string, repo: string, issueNumber: number): Promise<TrackerIssue> {
+    const { data } = await this.octokit.issues.get({
+      owner,
+      repo,
+      issue_number: issueNumber
+    });
+
+    return {
+      tracker: 'github',
+      key: `${repo}-${issueNumber}`,
+      title: data.title,
+      body: data.body || undefined,
+      labels: data.labels.map(label => typeof label === 'string' ? label : label.name || '').filter(Boolean),
+      url: data.html_url
+    };
+  }
+
+  /**
+   * Get state, review decision and combined CI status of a pull request
+   */
+  async getPullRequestStatus(pr: PullRequestRef): Promise<PullRequestStatus> {
+    const { data } = await this.octokit.pulls.get({
+      owner: pr.owner,
+      repo: pr.repo,
+      pull_number: pr.number
+    });
+
+    const state = data.merged
+      ? 'merged'
+      : data.state === 'closed'
+        ? 'closed'
+        : data.draft ? 'draft' : 'open';
+
+    const [reviewDecision, checks] = await Promise.all([
+      this.getReviewDecision(pr, (data.requested_reviewers || []).length > 0),
+      this.getCheckStatus(pr, data.head.sha)
+    ]);
+
+    return { state, reviewDecision, checks };
+  }
+
+  /**
+   * Derive the review decision from each reviewer's latest review
+   */
+  private async getReviewDecision(
+    pr: PullRequestRef,
+    hasRequestedReviewers: boolean
+  ): Promise<ReviewDecision | undefined> {
+    const { data } = await this.octokit.pulls.listReviews({
+      owner: pr.owner,
+      repo: pr.repo,
+      pull_number: pr.number,
+      per_page: 100
+    });
+
+    const latest: Map<string, string> = new Map(); // reviewer -> review state
+    for (const review of data) {
+      if (review.user && review.state !== 'COMMENTED') {
+        latest.set(review.user.login, review.state);
+      }
+    }
+
+    const states = Array.from(latest.values());
+    if (states.includes('CHANGES_REQUESTED')) {
+      return 'changes_requested';
+    }
+    if (states.includes('APPROVED')) {
+      return 'approved';
+    }
+    return hasRequestedReviewers ? 'review_required' : undefined;
+  }
+
+  /**
+   * Combine commit statuses and check runs into one CI status
+   */
+  private async getCheckStatus(pr: PullRequestRef, sha: string): Promise<CheckStatus> {
+    const [combined, checkRuns] = await Promise.all([
+      this.octokit.repos.getCombinedStatusForRef({ owner: pr.owner, repo: pr.repo, ref: sha }),
+      this.octokit.checks.listForRef({ owner: pr.owner, repo: pr.repo, ref: sha, per_page: 100 })
+    ]);
+
+    const results: CheckStatus[] = [];
+
+    if (combined.data.total_count > 0) {
+      results.push(combined.data.state === 'success'
+        ? 'success'
+        : combined.data.state === 'pending' ? 'pending' : 'failure');
+    }
+
+    for (const run of checkRuns.data.check_runs) {
+      if (run.status !== 'completed') {
+        results.push('pending');
+      } else if (['failure', 'timed_out', 'cancelled', 'action_required'].includes(run.conclusion || '')) {
+        results.push('failure');
+      } else {
+        results.push('success');
+      }
+    }
+
+    if (results.length === 0) {
+      return 'none';
+    }
+    if (results.includes('failure')) {
+      return 'failure';
+    }
+    return results.includes('pending') ? 'pending' : 'success';
+  }
+}
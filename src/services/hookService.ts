@@ -0,0 +1,191 @@
+/**
+ * Hook service - runs post_create / pre_delete steps declared in project files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { expandTilde } from '../config/paths';
+import { HookEvent, HookStep, Issue, Project } from '../models/types';
+
+/**
+ * Receives hook output and decides how to handle a failed step
+ * onFailure returns false to stop (the caller rolls back or cancels)
+ */
+export interface HookReporter {
+  onProgress(message: string): void;
+  onOutput(text: string): void;
+  onFailure(step: string, error: string): Promise<boolean>;
+}
+
+interface PlannedStep {
+  scope: string; // Repo name or project name
+  step: HookStep;
+  sourceDir: string; // Base of copy/symlink sources
+  targetDir: string; // Base of targets and run working directory
+  env: Record<string, string>;
+}
+
+export class HookService {
+  constructor(private templatesDir: string) {}
+
+  /**
+   * Run the hooks of an event for an issue
+   * post_create runs repository hooks first, then project hooks; pre_delete the other way around
+   * repoNames limits the run to those repositories' hooks, for worktrees added or removed
+   * while the issue directory stays (project hooks are skipped)
+   * Returns false if the reporter chose to stop after a failure
+   */
+  async runHooks(
+    event: HookEvent,
+    project: Project,
+    issue: Issue,
+    reporter: HookReporter,
+    repoNames?: string[]
+  ): Promise<boolean> {
+    const steps = this.planSteps(event, project, issue, repoNames);
+
+    for (const [index, planned] of steps.entries()) {
+      const description = `${planned.scope}: ${describeStep(planned.step)}`;
+      reporter.onProgress(`(${index + 1}/${steps.length}) ${description}`);
+      reporter.onOutput(`[${event}] ${description}\n`);
+
+      try {
+        await this.runStep(planned, reporter);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        reporter.onOutput(`[${event}] Failed: ${message}\n`);
+        if (!await reporter.onFailure(description, message)) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check whether a project declares any hooks for an event (limited to repoNames when given)
+   */
+  hasHooks(event: HookEvent, project: Project, repoNames?: string[]): boolean {
+    const repos = project.repositories.filter(repo => !repoNames || repoNames.includes(repo.name));
+    return [repoNames ? undefined : project.hooks, ...repos.map(repo => repo.hooks)].some(hooks => (hooks?.[event] || []).length > 0);
+  }
+
+  private planSteps(event: HookEvent, project: Project, issue: Issue, repoNames?: string[]): PlannedStep[] {
+    const issueEnv = {
+      MRM_PROJECT_ID: project.id,
+      MRM_ISSUE_ID: issue.id,
+      MRM_ISSUE_DIR: issue.workspaceDir
+    };
+
+    const projectSteps: PlannedStep[] = (repoNames ? [] : project.hooks?.[event] || []).map(step => ({
+      scope: project.name,
+      step,
+      sourceDir: this.templatesDir,
+      targetDir: issue.workspaceDir,
+      env: issueEnv
+    }));
+
+    const repoStates = issue.repos.filter(repoState => !repoNames || repoNames.includes(repoState.name));
+    const repoSteps: PlannedStep[] = repoStates.flatMap(repoState => {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo || !fs.existsSync(repoState.worktreePath)) {
+        return [];
+      }
+
+      return (repo.hooks?.[event] || []).map(step => ({
+        scope: repo.name,
+        step,
+        sourceDir: repo.path,
+        targetDir: repoState.worktreePath,
+        env: {
+          ...issueEnv,
+          MRM_REPO_NAME: repo.name,
+          MRM_REPO_PATH: repo.path,
+          MRM_WORKTREE_PATH: repoState.worktreePath,
+          MRM_BRANCH: repoState.branch
+        }
+      }));
+    });
+
+    return event === 'post_create' ? [...repoSteps, ...projectSteps] : [...projectSteps, ...repoSteps];
+  }
+
+  private async runStep(planned: PlannedStep, reporter: HookReporter): Promise<void> {
+    const { step, sourceDir, targetDir } = planned;
+
+    if (step.run) {
+      await runCommand(step.run, path.resolve(targetDir, step.cwd || '.'), planned.env, reporter);
+      return;
+    }
+
+    const source = step.copy || step.symlink;
+    if (!source) {
+      throw new Error('Hook step needs "run", "copy" or "symlink"');
+    }
+
+    const sourcePath = path.resolve(sourceDir, expandTilde(source));
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`Not found: ${sourcePath}`);
+    }
+
+    // Absolute sources keep only their name in the target directory
+    const relativeTarget = step.to || (path.isAbsolute(expandTilde(source)) ? path.basename(sourcePath) : source);
+    const targetPath = path.resolve(targetDir, relativeTarget);
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+
+    if (step.copy) {
+      fs.cpSync(sourcePath, targetPath, { recursive: true });
+      reporter.onOutput(`Copied ${sourcePath} to ${targetPath}\n`);
+      return;
+    }
+
+    const existing = fs.lstatSync(targetPath, { throwIfNoEntry: false });
+    if (existing?.isSymbolicLink() && path.resolve(path.dirname(targetPath), fs.readlinkSync(targetPath)) === sourcePath) {
+      reporter.onOutput(`${targetPath} already links to ${sourcePath}\n`);
+      return;
+    }
+    if (existing) {
+      throw new Error(`Cannot link ${targetPath}: it already exists`);
+    }
+
+    fs.symlinkSync(sourcePath, targetPath, fs.statSync(sourcePath).isDirectory() ? 'junction' : 'file');
+    reporter.onOutput(`Linked ${targetPath} to ${sourcePath}\n`);
+  }
+}
+
+function describeStep(step: HookStep): string {
+  if (step.run) {
+    return step.run;
+  }
+  if (step.copy) {
+    return `copy ${step.copy}${step.to ? ` to ${step.to}` : ''}`;
+  }
+  return `link ${step.symlink}${step.to ? ` as ${step.to}` : ''}`;
+}
+
+/**
+ * Run a shell command, streaming its output; rejects on a non-zero exit code
+ */
+function runCommand(command: string, cwd: string, env: Record<string, string>, reporter: HookReporter): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      env: { ...process.env, ...env }
+    });
+
+    child.stdout.on('data', (data: Buffer) => reporter.onOutput(data.toString()));
+    child.stderr.on('data', (data: Buffer) => reporter.onOutput(data.toString()));
+
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(signal ? `"${command}" was killed (${signal})` : `"${command}" exited with code ${code}`));
+      }
+    });
+  });
+}
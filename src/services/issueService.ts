@@ -4,164 +4,1015 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { GitService } from './gitService';
+import { GitService, resolveBaseRef } from './gitService';
 import { WorkspaceService } from './workspaceService';
+import { HookService, HookReporter } from './hookService';
 import { StateManager } from './stateManager';
 import { ConfigManager } from '../config/configManager';
+import * as yaml from 'yaml';
+import { expandTilde, getTemplatesDir, getWorkArchiveDir } from '../config/paths';
 import {
+  BaseRef,
+  HookEvent,
   Issue,
+  IssueMetadata,
+  IssueStatus,
+  Project,
   CreateIssueOptions,
+  CloseIssueOptions,
   DeleteIssueOptions,
-  RepoState
+  RepoAudit,
+  RepoState,
+  Repository,
+  WorkspaceFileChange
 } from '../models/types';
 
+// Looked up in {configDir}/templates/{project} when the project has no "claude" section
+const DEFAULT_CLAUDE_ASSETS = ['.claude', '.claudedoc'];
+const DEFAULT_CLAUDE_TEMPLATE = 'CLAUDE.md';
+
+/**
+ * Allowed manual status changes (pr_created is also set when PRs are created)
+ */
+const STATUS_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  active: ['pr_created', 'merged', 'closed'],
+  pr_created: ['active', 'merged', 'closed'],
+  merged: ['active', 'closed'],
+  closed: ['active']
+};
+
 export class IssueService {
   private gitService: GitService;
   private workspaceService: WorkspaceService;
 
-  constructor(
-    private configManager: ConfigManager,
-    private stateManager: StateManager
-  ) {
-    this.gitService = new GitService();
-    this.workspaceService = new WorkspaceService();
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager
+  ) {
+    this.gitService = new GitService();
+    this.workspaceService = new WorkspaceService();
+  }
+
+  /**
+   * Create a new issue with worktrees, branches, and workspace
+   */
+  async createIssue(options: CreateIssueOptions): Promise<Issue> {
+    const { projectId, issueId, title, description, labels, trackerUrl } = options;
+
+    // Load project configuration
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    // Select repositories (all by default)
+    const repositories = options.repos
+      ? project.repositories.filter(r => options.repos?.includes(r.name))
+      : project.repositories;
+
+    if (repositories.length === 0) {
+      throw new Error('At least one repository must be selected');
+    }
+
+    // Post-create hooks and rollback assume a fresh issue, so never reuse an existing one
+    if (this.stateManager.getIssue(projectId, issueId)) {
+      throw new Error(`Issue already exists: ${issueId}`);
+    }
+
+    // Create issue workspace directory
+    const workspaceDir = this.configManager.getWorkspaceDir();
+    const issueDir = this.workspaceService.createIssueDirectory(
+      workspaceDir,
+      projectId,
+      issueId
+    );
+
+    // Generate branch name
+    const branchName = this.configManager.generateBranchName(
+      issueId,
+      project.branchNaming
+    );
+
+    const repoStates: RepoState[] = [];
+
+    try {
+      // Create worktrees and branches for each selected repository
+      for (const repo of repositories) {
+        const base = options.repoBases?.[repo.name] || options.base;
+        repoStates.push(await this.createRepoWorktree(repo, issueDir, branchName, base));
+      }
+
+      // Copy Claude assets (.claude/, .claudedoc/) into the worktrees
+      await this.setupClaudeFiles(project, repoStates);
+
+      // Generate .code-workspace file
+      this.workspaceService.generateWorkspace(issueDir, issueId, repoStates, project.workspace);
+
+      // Create issue object
+      const issue: Issue = {
+        id: issueId,
+        title,
+        description,
+        labels,
+        trackerUrl,
+        projectId,
+        status: 'active',
+        workspaceDir: issueDir,
+        repos: repoStates,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      // Generate .claude.md context files (issue directory and worktrees)
+      this.writeClaudeContext(issue, project);
+
+      // Save to state
+      await this.stateManager.saveIssue(projectId, issue);
+
+      return issue;
+    } catch (error) {
+      // Rollback: remove created worktrees
+      for (const repoState of repoStates) {
+        try {
+          const repo = project.repositories.find(r => r.name === repoState.name);
+          if (repo) {
+            await this.gitService.removeWorktree(repo.path, repoState.worktreePath);
+          }
+        } catch (rollbackError) {
+          console.error(`Failed to rollback worktree ${repoState.worktreePath}: ${rollbackError}`);
+        }
+      }
+
+      // Remove issue directory
+      this.workspaceService.removeIssueDirectory(issueDir);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Create the worktree and branch of one repository under an issue directory
+   * Layout: {issueDir}/{org}/{repo}
+   */
+  private async createRepoWorktree(
+    repo: Repository,
+    issueDir: string,
+    branchName: string,
+    base?: BaseRef
+  ): Promise<RepoState> {
+    const remote = repo.remote || 'origin';
+
+    // Get org name from remote URL for directory structure
+    const org = await this.gitService.getOrgFromRemote(repo.path, remote);
+    const worktreePath = path.join(issueDir, org, repo.name);
+
+    // Validate repository exists
+    const isValid = await this.gitService.isValidRepository(repo.path);
+    if (!isValid) {
+      throw new Error(`Invalid repository: ${repo.path}`);
+    }
+
+    // Resolve starting point (project default branch unless overridden)
+    let baseRef: string | undefined;
+    let baseBranch: string | undefined;
+
+    if (base) {
+      switch (base.kind) {
+        case 'branch':
+          baseRef = `${remote}/${base.name}`;
+          baseBranch = base.name;
+          break;
+        case 'tag':
+          baseRef = base.name;
+          break;
+        case 'local':
+          if (!await this.gitService.branchExists(repo.path, base.name)) {
+            throw new Error(`Base branch ${base.name} does not exist in ${repo.name}`);
+          }
+          baseRef = base.name;
+          baseBranch = base.name;
+          break;
+      }
+    }
+
+    // Create worktree (checks out existing branch if it already exists)
+    await this.gitService.createWorktree(
+      repo.path,
+      worktreePath,
+      branchName,
+      baseRef || resolveBaseRef(repo)
+    );
+
+    // Check status
+    const status = await this.gitService.getBranchStatus(repo.path, branchName);
+
+    const repoState: RepoState = {
+      name: repo.name,
+      branch: branchName,
+      worktreePath,
+      created: status.created,
+      pushed: status.pushed,
+      baseRef,
+      baseBranch
+    };
+
+    await this.copyLocalFiles(repo, repoState);
+
+    return repoState;
+  }
+
+  /**
+   * Copy (or symlink) untracked local files matching the repo's copy_files globs from the main clone
+   * into a worktree; files already in the worktree are left alone
+   * Records the files on the repo state; failures are logged and skipped
+   */
+  private async copyLocalFiles(repo: Repository, repoState: RepoState): Promise<void> {
+    // A recreated worktree starts empty again
+    delete repoState.copiedFiles;
+    delete repoState.linkedFiles;
+
+    if (!repo.copy_files || repo.copy_files.length === 0) {
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = await this.gitService.listUntrackedMatches(repo.path, repo.copy_files);
+    } catch (error) {
+      console.warn(`Failed to list copy_files in ${repo.name}: ${error}`);
+      return;
+    }
+
+    const symlink = repo.copy_mode === 'symlink';
+    const done: string[] = [];
+
+    for (const file of files) {
+      const source = path.join(repo.path, file);
+      const target = path.join(repoState.worktreePath, file);
+
+      try {
+        if (fs.lstatSync(target, { throwIfNoEntry: false })) {
+          continue;
+        }
+
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        if (symlink) {
+          fs.symlinkSync(source, target);
+        } else {
+          fs.copyFileSync(source, target);
+        }
+        done.push(file);
+      } catch (error) {
+        console.warn(`Failed to ${symlink ? 'link' : 'copy'} ${file} into ${repoState.worktreePath}: ${error}`);
+      }
+    }
+
+    if (done.length > 0) {
+      repoState[symlink ? 'linkedFiles' : 'copiedFiles'] = done;
+    }
+  }
+
+  /**
+   * Run the post_create or pre_delete hooks of an issue's project and repositories
+   * repoNames limits the run to those repositories (see HookService.runHooks)
+   * Returns false if the reporter chose to stop after a failed step
+   */
+  async runHooks(
+    projectId: string,
+    issueId: string,
+    event: HookEvent,
+    reporter: HookReporter,
+    repoNames?: string[]
+  ): Promise<boolean> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const hookService = new HookService(getTemplatesDir(this.configManager.getConfigDir(), projectId));
+    return hookService.runHooks(event, project, issue, reporter, repoNames);
+  }
+
+  /**
+   * Check whether a project declares hooks for an event
+   */
+  hasHooks(projectId: string, event: HookEvent, repoNames?: string[]): boolean {
+    const project = this.configManager.loadProject(projectId);
+    return !!project && new HookService(getTemplatesDir(this.configManager.getConfigDir(), projectId)).hasHooks(event, project, repoNames);
+  }
+
+  /**
+   * Undo createIssue (e.g., after a failed post_create hook): removes worktrees, the issue directory
+   * and state, and deletes branches without commits of their own
+   */
+  async rollbackCreatedIssue(projectId: string, issueId: string): Promise<void> {
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    // Branches that already had commits (existing branches checked out by createIssue) are kept
+    const audits = await this.auditIssue(projectId, issueId);
+    await this.deleteIssue(projectId, issueId, { force: true });
+
+    for (const audit of audits) {
+      const repo = project.repositories.find(r => r.name === audit.repoName);
+      if (!repo || !audit.mergedIntoBase || audit.unpushedCommits.length > 0) {
+        continue;
+      }
+
+      try {
+        await this.gitService.deleteBranch(repo.path, audit.branch, true);
+      } catch (error) {
+        console.warn(`Failed to delete branch ${audit.branch} in ${repo.name}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Add a project repository to an existing issue
+   */
+  async addRepoToIssue(projectId: string, issueId: string, repoName: string): Promise<Issue> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const repo = project.repositories.find(r => r.name === repoName);
+    if (!repo) {
+      throw new Error(`Repository not in project: ${repoName}`);
+    }
+
+    if (issue.repos.some(r => r.name === repoName)) {
+      throw new Error(`Repository ${repoName} is already part of issue ${issueId}`);
+    }
+
+    const branchName = this.configManager.generateBranchName(issueId, project.branchNaming);
+    const repoState = await this.createRepoWorktree(repo, issue.workspaceDir, branchName);
+
+    issue.repos.push(repoState);
+    issue.updatedAt = new Date().toISOString();
+
+    await this.setupClaudeFiles(project, [repoState]);
+    this.workspaceService.generateWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace);
+    this.writeClaudeContext(issue, project);
+    await this.stateManager.saveIssue(projectId, issue);
+
+    return issue;
+  }
+
+  /**
+   * Remove a repository (worktree, optionally branch) from an existing issue
+   * Refuses to remove a worktree with uncommitted changes unless forced
+   */
+  async removeRepoFromIssue(
+    projectId: string,
+    issueId: string,
+    repoName: string,
+    options: DeleteIssueOptions = {}
+  ): Promise<Issue> {
+    const { deleteBranches = false, force = false } = options;
+
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const repoState = issue.repos.find(r => r.name === repoName);
+    if (!repoState) {
+      throw new Error(`Repository ${repoName} is not part of issue ${issueId}`);
+    }
+
+    if (issue.repos.length === 1) {
+      throw new Error('An issue must keep at least one repository');
+    }
+
+    if (!force) {
+      const audit = (await this.auditIssue(projectId, issueId)).find(a => a.repoName === repoName);
+      const risks = audit ? this.describeAuditRisks(audit, deleteBranches) : [];
+      if (risks.length > 0) {
+        throw new Error(`Repository ${repoName} has unsaved work:\n${risks.join('\n')}`);
+      }
+    }
+
+    const repo = project.repositories.find(r => r.name === repoName);
+    if (repo) {
+      if (await this.gitService.worktreeExists(repoState.worktreePath)) {
+        await this.gitService.removeWorktree(repo.path, repoState.worktreePath);
+      }
+      if (deleteBranches && await this.gitService.branchExists(repo.path, repoState.branch)) {
+        await this.gitService.deleteBranch(repo.path, repoState.branch, true);
+      }
+    }
+
+    // Remove the now empty org directory
+    const orgDir = path.dirname(repoState.worktreePath);
+    if (orgDir !== issue.workspaceDir && fs.existsSync(orgDir) && fs.readdirSync(orgDir).length === 0) {
+      fs.rmdirSync(orgDir);
+    }
+
+    issue.repos = issue.repos.filter(r => r.name !== repoName);
+    issue.updatedAt = new Date().toISOString();
+
+    this.workspaceService.generateWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace);
+    this.writeClaudeContext(issue, project);
+    await this.stateManager.saveIssue(projectId, issue);
+
+    return issue;
+  }
+
+  /**
+   * Update issue metadata and regenerate its .claude.md
+   */
+  async updateIssueMetadata(projectId: string, issueId: string, metadata: IssueMetadata): Promise<Issue> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const trackerUrl = metadata.trackerUrl?.trim();
+    if (trackerUrl && !/^https?:\/\/\S+$/.test(trackerUrl)) {
+      throw new Error(`Invalid tracker URL: ${trackerUrl}`);
+    }
+
+    // Empty values clear the field so it is omitted from issues.yaml
+    const text = (value: string | undefined) => value?.trim() || undefined;
+    if ('title' in metadata) {
+      issue.title = text(metadata.title);
+    }
+    if ('description' in metadata) {
+      issue.description = text(metadata.description);
+    }
+    if ('labels' in metadata) {
+      const labels = [...new Set((metadata.labels || []).map(label => label.trim()).filter(Boolean))];
+      issue.labels = labels.length > 0 ? labels : undefined;
+    }
+    if ('assignee' in metadata) {
+      issue.assignee = text(metadata.assignee);
+    }
+    if ('trackerUrl' in metadata) {
+      issue.trackerUrl = trackerUrl || undefined;
+    }
+    if ('notes' in metadata) {
+      issue.notes = text(metadata.notes);
+    }
+
+    issue.updatedAt = new Date().toISOString();
+    await this.stateManager.saveIssue(projectId, issue);
+
+    if (fs.existsSync(issue.workspaceDir)) {
+      this.writeClaudeContext(issue, this.configManager.loadProject(projectId));
+    }
+
+    return issue;
+  }
+
+  /**
+   * Compare the .code-workspace and .claude.md files of an issue with what the current
+   * project and issue state would generate; returns only the files that would change
+   */
+  previewWorkspaceFiles(projectId: string, issueId: string): WorkspaceFileChange[] {
+    const { issue, project } = this.getRegenerationTarget(projectId, issueId);
+
+    const files = [
+      {
+        filePath: this.workspaceService.getWorkspacePath(issue.workspaceDir, issue.id),
+        newContent: this.workspaceService.renderWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace)
+      },
+      {
+        filePath: path.join(issue.workspaceDir, '.claude.md'),
+        newContent: this.workspaceService.renderClaudeContext(issue, project)
+      },
+      ...this.workspaceService
+        .renderWorktreeContexts(issue, project, this.loadClaudeTemplate(project).template)
+        .map(file => ({ filePath: file.filePath, newContent: file.content }))
+    ];
+
+    return files
+      .map(file => ({
+        ...file,
+        currentContent: fs.existsSync(file.filePath) ? fs.readFileSync(file.filePath, 'utf-8') : undefined
+      }))
+      .filter(file => file.currentContent !== file.newContent);
+  }
+
+  /**
+   * Rebuild the .code-workspace and .claude.md files of an issue from the current project and issue state
+   * Returns the path of the workspace file
+   */
+  regenerateWorkspaceFiles(projectId: string, issueId: string): string {
+    const { issue, project } = this.getRegenerationTarget(projectId, issueId);
+
+    const workspaceFile = this.workspaceService.generateWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace);
+    this.writeClaudeContext(issue, project);
+
+    return workspaceFile;
+  }
+
+  /**
+   * Claude assets and worktree .claude.md template of a project
+   * Relative paths are resolved against {configDir}/templates/{project}
+   */
+  private loadClaudeTemplate(project: Project): { assets: string[]; template?: string } {
+    const templatesDir = getTemplatesDir(this.configManager.getConfigDir(), project.id);
+    const resolve = (file: string) => path.resolve(templatesDir, expandTilde(file));
+
+    // Configured paths must exist; the defaults are optional
+    for (const asset of project.claude?.assets || []) {
+      if (!fs.existsSync(resolve(asset))) {
+        console.warn(`Claude asset not found for ${project.id}: ${resolve(asset)}`);
+      }
+    }
+
+    const templateFile = resolve(project.claude?.template || DEFAULT_CLAUDE_TEMPLATE);
+    let template: string | undefined;
+    if (fs.existsSync(templateFile)) {
+      template = fs.readFileSync(templateFile, 'utf-8');
+    } else if (project.claude?.template) {
+      console.warn(`Claude template not found for ${project.id}: ${templateFile}`);
+    }
+
+    return {
+      assets: (project.claude?.assets || DEFAULT_CLAUDE_ASSETS).map(resolve),
+      template
+    };
+  }
+
+  /**
+   * Write the .claude.md files of an issue (worktree files need the project)
+   */
+  private writeClaudeContext(issue: Issue, project?: Project): void {
+    const template = project ? this.loadClaudeTemplate(project).template : undefined;
+    this.workspaceService.generateClaudeContext(issue.workspaceDir, issue, project, template);
+  }
+
+  /**
+   * Copy Claude assets into worktrees and keep them and the generated .claude.md out of git status
+   * Failures are logged; the worktrees stay usable without these files
+   */
+  private async setupClaudeFiles(project: Project, repoStates: RepoState[]): Promise<void> {
+    const { assets } = this.loadClaudeTemplate(project);
+
+    for (const repoState of repoStates) {
+      try {
+        const created = this.workspaceService.copyClaudeAssets(assets, repoState.worktreePath);
+
+        const excludes: string[] = [];
+        for (const name of [...created, '.claude.md']) {
+          if (!await this.gitService.isTracked(repoState.worktreePath, name)) {
+            excludes.push(`/${name}`);
+          }
+        }
+        await this.gitService.addExcludes(repoState.worktreePath, excludes);
+      } catch (error) {
+        console.warn(`Failed to set up Claude files in ${repoState.worktreePath}: ${error}`);
+      }
+    }
+  }
+
+  private getRegenerationTarget(projectId: string, issueId: string): { issue: Issue; project: Project } {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    if (!fs.existsSync(issue.workspaceDir)) {
+      throw new Error(`Issue directory not found: ${issue.workspaceDir}`);
+    }
+
+    return { issue, project };
+  }
+
+  /**
+   * Rename an issue: renames its branches, moves its worktrees and issue directory,
+   * renames the .code-workspace file and updates issues.yaml in one write
+   * The workspace and .claude.md files are then regenerated for the new paths
+   * If any step fails, the steps done so far are undone in reverse order
+   */
+  async renameIssue(projectId: string, issueId: string, newId: string): Promise<Issue> {
+    newId = newId.trim();
+
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    if (!newId || /[\\/]/.test(newId) || newId === '.' || newId === '..') {
+      throw new Error(`Invalid issue ID: ${newId}`);
+    }
+    if (newId === issueId) {
+      throw new Error(`Issue is already named ${newId}`);
+    }
+    if (this.stateManager.getIssue(projectId, newId) || this.stateManager.getArchivedIssue(projectId, newId)) {
+      throw new Error(`Issue ${newId} already exists`);
+    }
+
+    const oldDir = issue.workspaceDir;
+    const newDir = path.join(path.dirname(oldDir), newId);
+    if (fs.existsSync(newDir)) {
+      throw new Error(`Directory already exists: ${newDir}`);
+    }
+
+    const newBranch = this.configManager.generateBranchName(newId, project.branchNaming);
+
+    // Check every repo before changing anything
+    const plans: Array<{ repo: Repository; repoState: RepoState; newPath: string; move: boolean; renameBranch: boolean }> = [];
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        throw new Error(`Repository ${repoState.name} is no longer in project ${projectId}`);
+      }
+
+      const relativePath = path.relative(oldDir, repoState.worktreePath);
+      const inIssueDir = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+      const worktreeExists = await this.gitService.worktreeExists(repoState.worktreePath);
+
+      if (worktreeExists) {
+        const operation = await this.gitService.getInProgressOperation(repoState.worktreePath);
+        if (operation) {
+          throw new Error(`${repoState.name}: ${operation} in progress`);
+        }
+      }
+
+      const renameBranch = repoState.branch !== newBranch && await this.gitService.branchExists(repo.path, repoState.branch);
+      if (renameBranch && await this.gitService.branchExists(repo.path, newBranch)) {
+        throw new Error(`${repoState.name}: branch ${newBranch} already exists`);
+      }
+
+      plans.push({
+        repo,
+        repoState,
+        newPath: inIssueDir ? path.join(newDir, relativePath) : repoState.worktreePath,
+        move: worktreeExists && inIssueDir,
+        renameBranch
+      });
+    }
+
+    const undo: Array<{ description: string; run: () => unknown }> = [];
+
+    try {
+      for (const plan of plans.filter(p => p.renameBranch)) {
+        await this.gitService.renameBranch(plan.repo.path, plan.repoState.branch, newBranch);
+        undo.push({
+          description: `rename ${newBranch} back to ${plan.repoState.branch} in ${plan.repo.name}`,
+          run: () => this.gitService.renameBranch(plan.repo.path, newBranch, plan.repoState.branch)
+        });
+      }
+
+      fs.mkdirSync(newDir, { recursive: true });
+      undo.push({ description: `remove ${newDir}`, run: () => removeEmptyDirs(newDir) });
+
+      for (const plan of plans.filter(p => p.move)) {
+        fs.mkdirSync(path.dirname(plan.newPath), { recursive: true });
+        await this.gitService.moveWorktree(plan.repo.path, plan.repoState.worktreePath, plan.newPath);
+        undo.push({
+          description: `move worktree ${plan.newPath} back to ${plan.repoState.worktreePath}`,
+          run: () => this.gitService.moveWorktree(plan.repo.path, plan.newPath, plan.repoState.worktreePath)
+        });
+      }
+
+      // Everything else in the issue directory (.code-workspace, .claude.md, user files)
+      if (fs.existsSync(oldDir)) {
+        const moved: Array<[string, string]> = [];
+        undo.push({
+          description: `move issue files back to ${oldDir}`,
+          run: () => moved.reverse().forEach(([from, to]) => fs.renameSync(to, from))
+        });
+        moveContents(oldDir, newDir, moved);
+      }
+
+      const oldWorkspaceFile = path.join(newDir, `${issueId}.code-workspace`);
+      const newWorkspaceFile = path.join(newDir, `${newId}.code-workspace`);
+      if (fs.existsSync(oldWorkspaceFile)) {
+        fs.renameSync(oldWorkspaceFile, newWorkspaceFile);
+        undo.push({
+          description: `rename ${newWorkspaceFile} back`,
+          run: () => fs.renameSync(newWorkspaceFile, oldWorkspaceFile)
+        });
+      }
+
+      const renamed: Issue = {
+        ...issue,
+        id: newId,
+        workspaceDir: newDir,
+        repos: plans.map(plan => ({ ...plan.repoState, branch: newBranch, worktreePath: plan.newPath })),
+        updatedAt: new Date().toISOString()
+      };
+      await this.stateManager.renameIssue(projectId, issueId, renamed);
+
+      removeEmptyDirs(oldDir);
+      try {
+        // Template entries hold absolute worktree paths (${repo:<name>})
+        this.workspaceService.generateWorkspace(newDir, newId, renamed.repos, project.workspace);
+      } catch (error) {
+        console.warn(`Failed to regenerate ${newId}.code-workspace: ${error}`);
+      }
+      try {
+        this.writeClaudeContext(renamed, project);
+      } catch (error) {
+        console.warn(`Failed to regenerate .claude.md for ${newId}: ${error}`);
+      }
+
+      return renamed;
+    } catch (error) {
+      const rollbackErrors: string[] = [];
+      for (const step of undo.reverse()) {
+        try {
+          await step.run();
+        } catch (rollbackError) {
+          console.error(`Rollback failed (${step.description}): ${rollbackError}`);
+          rollbackErrors.push(`${step.description}: ${rollbackError}`);
+        }
+      }
+
+      throw new Error(
+        `Failed to rename ${issueId} to ${newId}: ${error}` +
+        (rollbackErrors.length > 0 ? `\nRollback incomplete:\n${rollbackErrors.join('\n')}` : '')
+      );
+    }
   }
 
   /**
-   * Create a new issue with worktrees, branches, and workspace
+   * Check whether an issue may move from one status to another
    */
-  async createIssue(options: CreateIssueOptions): Promise<Issue> {
-    const { projectId, issueId, title, description } = options;
+  canChangeStatus(from: IssueStatus, to: IssueStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to);
+  }
 
-    // Load project configuration
-    const project = this.configManager.loadProject(projectId);
-    if (!project) {
-      throw new Error(`Project not found: ${projectId}`);
+  /**
+   * Change issue status, validating the transition
+   */
+  async changeIssueStatus(projectId: string, issueId: string, status: IssueStatus): Promise<Issue> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
     }
 
-    // Check if issue already exists (return as-is if already fully set up)
-    const existingIssue = this.stateManager.getIssue(projectId, issueId);
-    if (existingIssue) {
-      return existingIssue;
+    if (!this.canChangeStatus(issue.status, status)) {
+      throw new Error(`Cannot change ${issueId} from ${issue.status} to ${status}`);
     }
 
-    // Create issue workspace directory
-    const workspaceDir = this.configManager.getWorkspaceDir();
-    const issueDir = this.workspaceService.createIssueDirectory(
-      workspaceDir,
-      projectId,
-      issueId
-    );
+    issue.status = status;
+    issue.updatedAt = new Date().toISOString();
+    await this.stateManager.saveIssue(projectId, issue);
 
-    // Generate branch name
-    const branchName = this.configManager.generateBranchName(
-      issueId,
-      project.branchNaming
-    );
+    return issue;
+  }
 
-    const repoStates: RepoState[] = [];
-    const createdWorktrees: string[] = [];
-    const repoOrgs: Map<string, string> = new Map(); // repo.name -> org
+  /**
+   * Close an issue, optionally removing its worktrees
+   * Branches, the issue directory and the state record are kept so it can be reopened
+   */
+  async closeIssue(projectId: string, issueId: string, options: CloseIssueOptions = {}): Promise<Issue> {
+    const { removeWorktrees = false, force = false } = options;
 
-    try {
-      // Create worktrees and branches for each repository
-      for (const repo of project.repositories) {
-        // Get org name from remote URL for directory structure
-        const org = await this.gitService.getOrgFromRemote(repo.path, repo.remote || 'origin');
-        repoOrgs.set(repo.name, org);
-        const worktreePath = path.join(issueDir, org, repo.name);
-
-        // Validate repository exists
-        const isValid = await this.gitService.isValidRepository(repo.path);
-        if (!isValid) {
-          throw new Error(`Invalid repository: ${repo.path}`);
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    if (!this.canChangeStatus(issue.status, 'closed')) {
+      throw new Error(`Cannot close ${issueId} (status: ${issue.status})`);
+    }
+
+    if (removeWorktrees) {
+      const project = this.configManager.loadProject(projectId);
+      if (!project) {
+        throw new Error(`Project not found: ${projectId}`);
+      }
+
+      // Branches are kept, so only uncommitted changes would be lost
+      if (!force) {
+        const audits = await this.auditIssue(projectId, issueId);
+        const risks = audits.flatMap(audit => this.describeAuditRisks(audit, false));
+        if (risks.length > 0) {
+          throw new Error(`Issue ${issueId} has unsaved work:\n${risks.join('\n')}`);
         }
+      }
 
-        // Create worktree (checks out existing branch if it already exists)
-        await this.gitService.createWorktree(
-          repo.path,
-          worktreePath,
-          branchName,
-          repo.default_branch || 'main'
-        );
+      for (const repoState of issue.repos) {
+        const repo = project.repositories.find(r => r.name === repoState.name);
+        if (!repo || !await this.gitService.worktreeExists(repoState.worktreePath)) {
+          continue;
+        }
+
+        await this.gitService.removeWorktree(repo.path, repoState.worktreePath);
+
+        // Remove the now empty org directory
+        const orgDir = path.dirname(repoState.worktreePath);
+        if (orgDir !== issue.workspaceDir && fs.existsSync(orgDir) && fs.readdirSync(orgDir).length === 0) {
+          fs.rmdirSync(orgDir);
+        }
+      }
+    }
 
-        createdWorktrees.push(worktreePath);
+    issue.status = 'closed';
+    issue.updatedAt = new Date().toISOString();
+    await this.stateManager.saveIssue(projectId, issue);
 
-        // Check status
-        const status = await this.gitService.getBranchStatus(repo.path, branchName);
+    return issue;
+  }
 
-        repoStates.push({
-          name: repo.name,
-          branch: branchName,
-          worktreePath,
-          created: status.created,
-          pushed: status.pushed
-        });
+  /**
+   * Reopen a closed or merged issue and recreate missing worktrees from its branches
+   * Returns the names of the repos whose worktrees were recreated
+   */
+  async reopenIssue(projectId: string, issueId: string): Promise<string[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    if (!this.canChangeStatus(issue.status, 'active')) {
+      throw new Error(`Cannot reopen ${issueId} (status: ${issue.status})`);
+    }
+
+    // Merged PRs are done; follow-up work gets new PRs
+    if (issue.status === 'merged') {
+      for (const repoState of issue.repos) {
+        delete repoState.pullRequest;
       }
+    }
 
-      // Generate .code-workspace file
-      this.workspaceService.generateWorkspace(
-        issueDir,
-        issueId,
-        project.repositories,
-        repoOrgs
-      );
+    const recreated: string[] = [];
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo || await this.gitService.worktreeExists(repoState.worktreePath)) {
+        continue;
+      }
 
-      // Generate .claude.md context file
-      this.workspaceService.generateClaudeContext(
-        issueDir,
-        issueId,
-        title,
-        description
+      // Checks out the existing branch (or recreates it from the base if it was deleted)
+      await this.gitService.pruneWorktrees(repo.path);
+      await this.gitService.createWorktree(
+        repo.path,
+        repoState.worktreePath,
+        repoState.branch,
+        resolveBaseRef(repo, repoState)
       );
+      await this.copyLocalFiles(repo, repoState);
+      recreated.push(repoState.name);
+    }
 
-      // Create issue object
-      const issue: Issue = {
-        id: issueId,
-        title,
-        description,
-        projectId,
-        status: 'active',
-        workspaceDir: issueDir,
-        repos: repoStates,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+    if (!fs.existsSync(path.join(issue.workspaceDir, `${issue.id}.code-workspace`))) {
+      this.workspaceService.generateWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace);
+    }
 
-      // Save to state
-      this.stateManager.saveIssue(projectId, issue);
+    if (recreated.length > 0) {
+      await this.setupClaudeFiles(project, issue.repos.filter(r => recreated.includes(r.name)));
+      this.writeClaudeContext(issue, project);
+    }
 
-      return issue;
-    } catch (error) {
-      // Rollback: remove created worktrees
-      for (const worktreePath of createdWorktrees) {
-        try {
-          const repoName = path.basename(worktreePath);
-          const repo = project.repositories.find(r => r.name === repoName);
-          if (repo) {
-            await this.gitService.removeWorktree(repo.path, worktreePath);
-          }
-        } catch (rollbackError) {
-          console.error(`Failed to rollback worktree ${worktreePath}: ${rollbackError}`);
-        }
+    issue.status = 'active';
+    issue.updatedAt = new Date().toISOString();
+    await this.stateManager.saveIssue(projectId, issue);
+
+    return recreated;
+  }
+
+  /**
+   * Archive an issue: remove its worktrees and issue directory, and move it to archive.yaml
+   * Branches and the issue record (PR links, timestamps) are kept so it can be restored
+   */
+  async archiveIssue(projectId: string, issueId: string, options: { force?: boolean } = {}): Promise<Issue> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    // Branches are kept, so only uncommitted changes would be lost
+    if (!options.force) {
+      const audits = await this.auditIssue(projectId, issueId);
+      const risks = audits.flatMap(audit => this.describeAuditRisks(audit, false));
+      if (risks.length > 0) {
+        throw new Error(`Issue ${issueId} has unsaved work:\n${risks.join('\n')}`);
       }
+    }
 
-      // Remove issue directory
-      this.workspaceService.removeIssueDirectory(issueDir);
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo || !await this.gitService.worktreeExists(repoState.worktreePath)) {
+        continue;
+      }
 
-      throw error;
+      await this.gitService.removeWorktree(repo.path, repoState.worktreePath);
+    }
+
+    this.workspaceService.removeIssueDirectory(issue.workspaceDir);
+
+    issue.archivedAt = new Date().toISOString();
+    await this.stateManager.archiveIssue(projectId, issue);
+
+    return issue;
+  }
+
+  /**
+   * Restore an archived issue: recreate its worktrees, workspace file and context file
+   * Returns the restored issue
+   */
+  async restoreIssue(projectId: string, issueId: string): Promise<Issue> {
+    const issue = this.stateManager.getArchivedIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Archived issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
     }
+
+    if (this.stateManager.getIssue(projectId, issueId)) {
+      throw new Error(`Issue ${issueId} already exists in ${project.name}`);
+    }
+
+    fs.mkdirSync(issue.workspaceDir, { recursive: true });
+
+    const restored: RepoState[] = [];
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        console.warn(`Skipping ${repoState.name}: no longer in project ${projectId}`);
+        continue;
+      }
+
+      if (!await this.gitService.worktreeExists(repoState.worktreePath)) {
+        // Checks out the kept branch (or recreates it from the base if it was deleted)
+        await this.gitService.pruneWorktrees(repo.path);
+        await this.gitService.createWorktree(
+          repo.path,
+          repoState.worktreePath,
+          repoState.branch,
+          resolveBaseRef(repo, repoState)
+        );
+        await this.copyLocalFiles(repo, repoState);
+      }
+      repoState.created = true;
+      restored.push(repoState);
+    }
+
+    issue.repos = restored;
+    delete issue.archivedAt;
+    issue.updatedAt = new Date().toISOString();
+
+    await this.setupClaudeFiles(project, issue.repos);
+    this.workspaceService.generateWorkspace(issue.workspaceDir, issue.id, issue.repos, project.workspace);
+    this.writeClaudeContext(issue, project);
+    await this.stateManager.restoreArchivedIssue(projectId, issue);
+
+    return issue;
+  }
+
+  /**
+   * List archived issues of a project
+   */
+  listArchivedIssues(projectId: string): Issue[] {
+    return this.stateManager.loadArchivedIssues(projectId);
   }
 
   /**
    * Delete an issue with cleanup
+   * Returns the archive directory if work was archived
    */
   async deleteIssue(
     projectId: string,
     issueId: string,
     options: DeleteIssueOptions = {}
-  ): Promise<void> {
-    const { deleteBranches = false } = options;
+  ): Promise<string | undefined> {
+    const { deleteBranches = false, force = false, archiveWork = false } = options;
 
     // Load issue
     const issue = this.stateManager.getIssue(projectId, issueId);
@@ -175,6 +1026,19 @@ export class IssueService {
       throw new Error(`Project not found: ${projectId}`);
     }
 
+    // Audit for unsaved work unless forced
+    let archiveDir: string | undefined;
+    if (!force || archiveWork) {
+      const audits = await this.auditIssue(projectId, issueId);
+      const risks = audits.flatMap(audit => this.describeAuditRisks(audit, deleteBranches));
+
+      if (archiveWork) {
+        archiveDir = await this.archiveIssueWork(projectId, issue, audits);
+      } else if (risks.length > 0) {
+        throw new Error(`Issue ${issueId} has unsaved work:\n${risks.join('\n')}`);
+      }
+    }
+
     // Remove worktrees
     for (const repoState of issue.repos) {
       const repo = project.repositories.find(r => r.name === repoState.name);
@@ -206,7 +1070,153 @@ export class IssueService {
     this.workspaceService.removeIssueDirectory(issue.workspaceDir);
 
     // Remove from state
-    this.stateManager.deleteIssue(projectId, issueId);
+    await this.stateManager.deleteIssue(projectId, issueId);
+
+    return archiveDir;
+  }
+
+  /**
+   * Audit every repo of an issue for work that deletion would lose
+   */
+  async auditIssue(projectId: string, issueId: string): Promise<RepoAudit[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const audits: RepoAudit[] = [];
+
+    for (const repoState of issue.repos) {
+      const audit: RepoAudit = {
+        repoName: repoState.name,
+        branch: repoState.branch,
+        worktreePath: repoState.worktreePath,
+        worktreeExists: false,
+        dirtyFiles: [],
+        stashes: [],
+        unpushedCommits: [],
+        mergedIntoBase: true
+      };
+      audits.push(audit);
+
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        audit.error = 'Repository not in project';
+        continue;
+      }
+
+      try {
+        const remote = repo.remote || 'origin';
+        audit.worktreeExists = await this.gitService.worktreeExists(repoState.worktreePath);
+
+        if (audit.worktreeExists) {
+          audit.dirtyFiles = await this.gitService.getDirtyFiles(repoState.worktreePath);
+        }
+
+        // Checked on the branch in the main clone so a removed worktree still reports them
+        if (await this.gitService.branchExists(repo.path, repoState.branch)) {
+          audit.unpushedCommits = await this.gitService.getUnpushedCommits(repo.path, repoState.branch, remote);
+          audit.stashes = await this.gitService.listBranchStashes(repo.path, repoState.branch);
+          audit.mergedIntoBase = await this.gitService.isMergedInto(
+            repo.path,
+            repoState.branch,
+            resolveBaseRef(repo, repoState)
+          );
+        }
+      } catch (error) {
+        audit.error = `${error}`;
+      }
+    }
+
+    return audits;
+  }
+
+  /**
+   * Describe what deleting would lose for one repo (empty if safe)
+   * Unpushed commits, stashes and unmerged branches only matter when branches are deleted
+   */
+  describeAuditRisks(audit: RepoAudit, deleteBranches: boolean): string[] {
+    const risks: string[] = [];
+
+    if (audit.error) {
+      risks.push(`${audit.repoName}: audit failed (${audit.error})`);
+    }
+    if (audit.dirtyFiles.length > 0) {
+      risks.push(`${audit.repoName}: ${audit.dirtyFiles.length} uncommitted/untracked files`);
+    }
+    if (deleteBranches) {
+      if (audit.unpushedCommits.length > 0) {
+        risks.push(`${audit.repoName}: ${audit.unpushedCommits.length} unpushed commits`);
+      }
+      if (audit.stashes.length > 0) {
+        risks.push(`${audit.repoName}: ${audit.stashes.length} stashes on ${audit.branch}`);
+      }
+      if (!audit.mergedIntoBase) {
+        risks.push(`${audit.repoName}: ${audit.branch} is not merged into the default branch`);
+      }
+    }
+
+    return risks;
+  }
+
+  /**
+   * Save uncommitted changes, unpushed commits and stashes of an issue
+   * Layout: {configDir}/archive/{project}/{issue}-{timestamp}/{repo}/
+   */
+  private async archiveIssueWork(projectId: string, issue: Issue, audits: RepoAudit[]): Promise<string> {
+    const project = this.configManager.loadProject(projectId);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const archiveDir = path.join(
+      getWorkArchiveDir(this.configManager.getConfigDir(), projectId),
+      `${issue.id}-${timestamp}`
+    );
+
+    fs.mkdirSync(archiveDir, { recursive: true });
+    fs.writeFileSync(path.join(archiveDir, 'issue.yaml'), yaml.stringify(issue), 'utf-8');
+
+    for (const audit of audits) {
+      const repo = project?.repositories.find(r => r.name === audit.repoName);
+      if (!repo) {
+        continue;
+      }
+
+      const repoDir = path.join(archiveDir, audit.repoName);
+      fs.mkdirSync(repoDir, { recursive: true });
+
+      if (audit.worktreeExists && audit.dirtyFiles.length > 0) {
+        await this.gitService.createWorkingTreePatch(
+          audit.worktreePath,
+          path.join(repoDir, 'uncommitted.patch')
+        );
+
+        for (const file of await this.gitService.getUntrackedFiles(audit.worktreePath)) {
+          const target = path.join(repoDir, 'untracked', file);
+          fs.mkdirSync(path.dirname(target), { recursive: true });
+          fs.cpSync(path.join(audit.worktreePath, file), target, { recursive: true });
+        }
+      }
+
+      if (audit.unpushedCommits.length > 0) {
+        await this.gitService.createUnpushedBundle(
+          repo.path,
+          audit.branch,
+          path.join(repoDir, 'unpushed.bundle'),
+          repo.remote || 'origin'
+        );
+      }
+
+      for (const [index, stash] of audit.stashes.entries()) {
+        const stashRef = stash.split(' ')[0];
+        await this.gitService.createStashPatch(repo.path, stashRef, path.join(repoDir, `stash-${index}.patch`));
+      }
+    }
+
+    return archiveDir;
   }
 
   /**
@@ -267,3 +1277,40 @@ export class IssueService {
     return orphaned.length;
   }
 }
+
+/**
+ * Move the entries of a directory into another, merging into existing subdirectories
+ * Records the [from, to] pairs in moved as they happen
+ */
+function moveContents(fromDir: string, toDir: string, moved: Array<[string, string]>): void {
+  for (const entry of fs.readdirSync(fromDir, { withFileTypes: true })) {
+    const from = path.join(fromDir, entry.name);
+    const to = path.join(toDir, entry.name);
+
+    if (!fs.existsSync(to)) {
+      fs.renameSync(from, to);
+      moved.push([from, to]);
+    } else if (entry.isDirectory() && fs.statSync(to).isDirectory()) {
+      moveContents(from, to, moved);
+    } else {
+      throw new Error(`Cannot move ${from}: ${to} already exists`);
+    }
+  }
+}
+
+/**
+ * Remove a directory tree if it only contains empty directories
+ */
+function removeEmptyDirs(dir: string): void {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    return;
+  }
+
+  for (const entry of fs.readdirSync(dir)) {
+    removeEmptyDirs(path.join(dir, entry));
+  }
+
+  if (fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+  }
+}
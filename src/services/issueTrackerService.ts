@@ -0,0 +1,164 @@
+/**
+ * Issue tracker service - resolves GitHub issue URLs and Jira keys into issue data
+ */
+
+import { GitHubService } from './githubService';
+import { Config, TrackerIssue } from '../models/types';
+
+/**
+ * A tracker that can recognize a user input and fetch the issue behind it
+ */
+export interface IssueTrackerProvider {
+  readonly name: string;
+  canHandle(input: string): boolean;
+  fetchIssue(input: string): Promise<TrackerIssue>;
+}
+
+/**
+ * GitHub issues
+ * Accepts: https://{host}/{owner}/{repo}/issues/{number}, {owner}/{repo}#{number}
+ */
+export class GitHubIssueProvider implements IssueTrackerProvider {
+  readonly name = 'GitHub';
+
+  private static readonly URL_PATTERN = /^https?:\/\/[^/]+\/([^/]+)\/([^/]+)\/issues\/(\d+)\/?(?:[?#].*)?$/;
+  private static readonly SHORT_PATTERN = /^([\w.-]+)\/([\w.-]+)#(\d+)$/;
+
+  constructor(private getGitHubService: () => Promise<GitHubService>) {}
+
+  canHandle(input: string): boolean {
+    return this.parse(input) !== undefined;
+  }
+
+  async fetchIssue(input: string): Promise<TrackerIssue> {
+    const ref = this.parse(input);
+    if (!ref) {
+      throw new Error(`Not a GitHub issue reference: ${input}`);
+    }
+
+    const githubService = await this.getGitHubService();
+    return githubService.getIssue(ref.owner, ref.repo, ref.number);
+  }
+
+  private parse(input: string): { owner: string; repo: string; number: number } | undefined {
+    const value = input.trim();
+    const match = value.match(GitHubIssueProvider.URL_PATTERN) ||
+                  value.match(GitHubIssueProvider.SHORT_PATTERN);
+
+    if (!match) {
+      return undefined;
+    }
+
+    return { owner: match[1], repo: match[2], number: parseInt(match[3], 10) };
+  }
+}
+
+/**
+ * Fields of GET /rest/api/2/issue/{key} used here
+ */
+interface JiraIssueResponse {
+  key?: string;
+  fields?: {
+    summary?: string;
+    description?: string | null;
+    labels?: string[];
+  };
+}
+
+/**
+ * Jira issues (REST API v2)
+ * Accepts: https://{host}/browse/{KEY}, {KEY} (only when a Jira base URL is configured)
+ */
+export class JiraIssueProvider implements IssueTrackerProvider {
+  readonly name = 'Jira';
+
+  private static readonly KEY_PATTERN = /^[A-Z][A-Z0-9_]+-\d+$/;
+  private static readonly URL_PATTERN = /^(https?:\/\/.+?)\/browse\/([A-Z][A-Z0-9_]+-\d+)\/?(?:[?#].*)?$/;
+
+  constructor(private jira: NonNullable<Config['jira']>) {}
+
+  canHandle(input: string): boolean {
+    return this.parse(input) !== undefined;
+  }
+
+  async fetchIssue(input: string): Promise<TrackerIssue> {
+    const ref = this.parse(input);
+    if (!ref) {
+      throw new Error(`Not a Jira issue reference: ${input}`);
+    }
+
+    // Credentials only go to the configured site, never to a host named by a pasted URL
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    const authorized = Boolean(this.jira.token) && ref.baseUrl === this.configuredBaseUrl();
+    if (authorized) {
+      headers.Authorization = this.jira.email
+        ? `Basic ${Buffer.from(`${this.jira.email}:${this.jira.token}`).toString('base64')}`
+        : `Bearer ${this.jira.token}`;
+    }
+
+    const response = await fetch(
+      `${ref.baseUrl}/rest/api/2/issue/${encodeURIComponent(ref.key)}?fields=summary,description,labels`,
+      { headers }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Jira request failed for ${ref.key}: ${response.status} ${response.statusText}` +
+        (this.jira.token && !authorized ? ` (credentials are only sent to jira.baseUrl: ${this.jira.baseUrl || 'not set'})` : '')
+      );
+    }
+
+    const data = await response.json() as JiraIssueResponse;
+    const fields = data.fields || {};
+
+    return {
+      tracker: 'jira',
+      key: data.key || ref.key,
+      title: fields.summary || ref.key,
+      body: fields.description || undefined,
+      labels: Array.isArray(fields.labels) ? fields.labels : [],
+      url: `${ref.baseUrl}/browse/${data.key || ref.key}`
+    };
+  }
+
+  private parse(input: string): { baseUrl: string; key: string } | undefined {
+    const value = input.trim();
+    const configuredBaseUrl = this.configuredBaseUrl();
+
+    const urlMatch = value.match(JiraIssueProvider.URL_PATTERN);
+    if (urlMatch) {
+      return { baseUrl: configuredBaseUrl || urlMatch[1], key: urlMatch[2] };
+    }
+
+    if (configuredBaseUrl && JiraIssueProvider.KEY_PATTERN.test(value)) {
+      return { baseUrl: configuredBaseUrl, key: value };
+    }
+
+    return undefined;
+  }
+
+  private configuredBaseUrl(): string | undefined {
+    return this.jira.baseUrl?.replace(/\/+$/, '');
+  }
+}
+
+export class IssueTrackerService {
+  constructor(private providers: IssueTrackerProvider[]) {}
+
+  /**
+   * Create the service with the built-in GitHub and Jira providers
+   */
+  static create(config: Config, getGitHubService: () => Promise<GitHubService>): IssueTrackerService {
+    return new IssueTrackerService([
+      new GitHubIssueProvider(getGitHubService),
+      new JiraIssueProvider(config.jira || {})
+    ]);
+  }
+
+  /**
+   * Find the provider that recognizes the input (undefined for plain issue IDs)
+   */
+  findProvider(input: string): IssueTrackerProvider | undefined {
+    return this.providers.find(p => p.canHandle(input));
+  }
+}
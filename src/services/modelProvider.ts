@@ -0,0 +1,108 @@
+/**
+ * Model providers for AI-powered features (code review, PR description)
+ */
+
+import * as vscode from 'vscode';
+import { Config } from '../models/types';
+
+const GEMINI_API_KEY_SECRET = 'mrm.gemini.apiKey';
+
+export interface GenerateOptions {
+  json?: boolean; // Ask the model for a JSON response
+}
+
+/**
+ * A text generation backend
+ */
+export interface ModelProvider {
+  readonly name: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+export interface GeminiProviderOptions {
+  endpoint: string; // e.g., "https://generativelanguage.googleapis.com/v1beta" or a local fake
+  model: string;
+  apiKey: string;
+}
+
+/**
+ * Fields of a generateContent response used here
+ */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+}
+
+/**
+ * Google Gemini (generateContent REST API)
+ */
+export class GeminiProvider implements ModelProvider {
+  readonly name: string;
+
+  constructor(private options: GeminiProviderOptions) {
+    this.name = `Gemini (${options.model})`;
+  }
+
+  /**
+   * Create a Gemini provider from configuration
+   * API key: config.yaml / GEMINI_API_KEY, otherwise secret storage (prompts once)
+   * Returns undefined if AI features are disabled or no key was entered
+   */
+  static async create(config: Config, secrets: vscode.SecretStorage): Promise<GeminiProvider | undefined> {
+    if (!config.gemini?.enabled) {
+      vscode.window.showInformationMessage('AI features are disabled (mrm.gemini.enabled)');
+      return undefined;
+    }
+
+    let apiKey = config.gemini.apiKey || await secrets.get(GEMINI_API_KEY_SECRET);
+
+    if (!apiKey) {
+      apiKey = await vscode.window.showInputBox({
+        prompt: 'Enter Gemini API key (stored in VS Code secret storage)',
+        password: true,
+        ignoreFocusOut: true
+      });
+
+      if (!apiKey) {
+        return undefined;
+      }
+
+      await secrets.store(GEMINI_API_KEY_SECRET, apiKey);
+    }
+
+    return new GeminiProvider({
+      endpoint: config.gemini.endpoint || 'https://generativelanguage.googleapis.com/v1beta',
+      model: config.gemini.model,
+      apiKey
+    });
+  }
+
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const endpoint = this.options.endpoint.replace(/\/+$/, '');
+    const url = `${endpoint}/models/${encodeURIComponent(this.options.model)}:generateContent`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.options.apiKey
+      },
+      body: JSON.stringify({
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: options.json ? { responseMimeType: 'application/json' } : undefined
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as GeminiResponse;
+    const parts = data.candidates?.[0]?.content?.parts;
+
+    if (!Array.isArray(parts)) {
+      throw new Error('Gemini returned no content');
+    }
+
+    return parts.map(part => part.text || '').join('');
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * PR description service - AI-generated PR titles and bodies from the cross-repo changeset
+ */
+
+import { ModelProvider } from './modelProvider';
+import { Issue, PRDraft, RepoChangeset } from '../models/types';
+
+const REPO_MARKER = /^<!-- mrm:repo (.+?) -->\s*$/;
+
+/**
+ * Model response as requested in the prompt (unchecked until validated)
+ */
+interface DraftsResponse {
+  repos?: Array<{ repo?: unknown; title?: unknown; body?: unknown } | null>;
+}
+
+export class PRDescriptionService {
+  constructor(private modelProvider: ModelProvider) {}
+
+  /**
+   * Generate one PR title/body per changed repo
+   * Each body mentions the related changes in the sibling repos
+   */
+  async generateDrafts(issue: Issue, changesets: RepoChangeset[]): Promise<Record<string, PRDraft>> {
+    if (changesets.length === 0) {
+      return {};
+    }
+
+    const response = await this.modelProvider.generate(this.buildPrompt(issue, changesets), { json: true });
+    const json = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+    let data: DraftsResponse;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Failed to parse PR description response: ${error}`);
+    }
+
+    const drafts: Record<string, PRDraft> = {};
+    for (const entry of Array.isArray(data.repos) ? data.repos : []) {
+      const repo = entry?.repo;
+      if (entry && typeof repo === 'string' && changesets.some(c => c.repoName === repo) && entry.title) {
+        drafts[repo] = { title: String(entry.title), body: String(entry.body || '') };
+      }
+    }
+
+    return drafts;
+  }
+
+  /**
+   * Build prompt from issue details, commit logs and diffs
+   */
+  private buildPrompt(issue: Issue, changesets: RepoChangeset[]): string {
+    const sections = changesets.map(c => [
+      `=== Repository: ${c.repoName} (branch ${c.branch}, base ${c.baseRef}) ===`,
+      'Commits:',
+      ...(c.commits.length > 0 ? c.commits.map(commit => `- ${commit}`) : ['- (uncommitted changes only)']),
+      'Diff:',
+      c.diff
+    ].join('\n'));
+
+    return [
+      'Write GitHub pull request titles and descriptions for one change that spans multiple repositories.',
+      'Write one pull request per repository. Each description must summarize the changes in that',
+      'repository and include a short "Related changes" section describing what changed in the other',
+      'repositories and how it relates. Use Markdown in descriptions. Keep titles under 72 characters',
+      `and prefix them with "${issue.id}: ".`,
+      '',
+      `Issue: ${issue.id}${issue.title ? ` - ${issue.title}` : ''}`,
+      issue.description ? `Description:\n${issue.description}` : '',
+      '',
+      'Respond with JSON only, in this shape:',
+      '{"repos": [{"repo": string, "title": string, "body": string}]}',
+      '',
+      ...sections
+    ].join('\n');
+  }
+}
+
+/**
+ * Render drafts as one Markdown document for review in an editor
+ */
+export function formatDrafts(drafts: Record<string, PRDraft>): string {
+  const sections = Object.entries(drafts).map(([repoName, draft]) =>
+    `<!-- mrm:repo ${repoName} -->\n# ${draft.title}\n\n${draft.body.trim()}\n`
+  );
+
+  return [
+    '<!-- Review the pull request drafts below. The first "# " line of each section is the title. -->',
+    '<!-- Keep the "mrm:repo" markers; delete a section to use the default title/description. -->',
+    '',
+    ...sections
+  ].join('\n');
+}
+
+/**
+ * Parse drafts back from the reviewed document
+ */
+export function parseDrafts(text: string): Record<string, PRDraft> {
+  const drafts: Record<string, PRDraft> = {};
+  let repoName: string | undefined;
+  let lines: string[] = [];
+
+  const flush = () => {
+    if (!repoName) {
+      return;
+    }
+    const titleIndex = lines.findIndex(line => line.startsWith('# '));
+    if (titleIndex >= 0) {
+      drafts[repoName] = {
+        title: lines[titleIndex].substring(2).trim(),
+        body: lines.slice(titleIndex + 1).join('\n').trim()
+      };
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(REPO_MARKER);
+    if (match) {
+      flush();
+      repoName = match[1];
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return drafts;
+}
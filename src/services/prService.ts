@@ -0,0 +1,161 @@
+/**
+ * PR service - pushes issue branches and creates cross-linked pull requests
+ */
+
+import { GitService, resolveBaseBranch } from './gitService';
+import { GitHubService } from './githubService';
+import { StateManager } from './stateManager';
+import { ConfigManager } from '../config/configManager';
+import { CreatePROptions, Issue, PRResult, PullRequestRef } from '../models/types';
+
+const RELATED_START = '<!-- mrm:related-prs:start -->';
+const RELATED_END = '<!-- mrm:related-prs:end -->';
+
+export class PRService {
+  private gitService: GitService;
+
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager,
+    private githubService: GitHubService
+  ) {
+    this.gitService = new GitService();
+  }
+
+  /**
+   * Push every repo branch of an issue and open one PR per repo
+   */
+  async createPullRequests(
+    projectId: string,
+    issueId: string,
+    options: CreatePROptions = {},
+    onProgress?: (message: string) => void
+  ): Promise<PRResult[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const results: PRResult[] = [];
+    const bodies: Map<string, string> = new Map(); // repo.name -> PR body without related section
+
+    for (const repoState of issue.repos) {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        results.push({ repoName: repoState.name, created: false, error: 'Repository not in project' });
+        continue;
+      }
+
+      try {
+        const remote = repo.remote || 'origin';
+
+        onProgress?.(`Pushing ${repoState.name}...`);
+        const remoteBranch = await this.gitService.pushBranch(repoState.worktreePath, repoState.branch, remote);
+        repoState.pushed = true;
+
+        const { owner, repo: repoName } = await this.gitService.getRepoSlugFromRemote(repo.path, remote);
+
+        let pullRequest = repoState.pullRequest ||
+          await this.githubService.findOpenPullRequest(owner, repoName, remoteBranch);
+        let created = false;
+
+        if (pullRequest) {
+          bodies.set(repoState.name, await this.githubService.getPullRequestBody(pullRequest));
+        } else {
+          onProgress?.(`Creating PR for ${repoState.name}...`);
+          const draft = options.drafts?.[repoState.name];
+          const body = draft ? draft.body : this.buildBody(issue);
+          pullRequest = await this.githubService.createPullRequest({
+            owner,
+            repo: repoName,
+            head: remoteBranch,
+            base: resolveBaseBranch(repo, repoState),
+            title: draft ? draft.title : this.buildTitle(issue),
+            body,
+            draft: options.draft
+          });
+          bodies.set(repoState.name, body);
+          created = true;
+        }
+
+        repoState.pullRequest = pullRequest;
+        results.push({ repoName: repoState.name, pullRequest, created });
+      } catch (error) {
+        results.push({ repoName: repoState.name, created: false, error: `${error}` });
+      }
+    }
+
+    // Cross-link sibling PRs in each body
+    const pullRequests = results.filter(r => r.pullRequest);
+    if (pullRequests.length > 1) {
+      onProgress?.('Linking related pull requests...');
+      for (const result of pullRequests) {
+        const siblings = pullRequests
+          .filter(r => r.repoName !== result.repoName)
+          .map(r => r.pullRequest as PullRequestRef);
+
+        try {
+          const body = this.withRelatedSection(bodies.get(result.repoName) || '', siblings);
+          await this.githubService.updatePullRequestBody(result.pullRequest as PullRequestRef, body);
+        } catch (error) {
+          console.error(`Failed to link related PRs for ${result.repoName}: ${error}`);
+        }
+      }
+    }
+
+    // Persist PR references and move the issue forward
+    issue.updatedAt = new Date().toISOString();
+    await this.stateManager.saveIssue(projectId, issue);
+
+    if (pullRequests.length > 0 && issue.status === 'active') {
+      await this.stateManager.updateIssueStatus(projectId, issueId, 'pr_created');
+    }
+
+    return results;
+  }
+
+  /**
+   * Build PR title from issue
+   */
+  private buildTitle(issue: Issue): string {
+    return issue.title ? `${issue.id}: ${issue.title}` : issue.id;
+  }
+
+  /**
+   * Build PR body from issue
+   */
+  private buildBody(issue: Issue): string {
+    const lines = [`Issue: ${issue.id}`];
+
+    if (issue.description) {
+      lines.push('', issue.description);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Replace (or append) the related PRs section of a body
+   */
+  private withRelatedSection(body: string, siblings: PullRequestRef[]): string {
+    const start = body.indexOf(RELATED_START);
+    const end = body.indexOf(RELATED_END);
+    const base = start >= 0 && end > start
+      ? (body.substring(0, start) + body.substring(end + RELATED_END.length)).trimEnd()
+      : body.trimEnd();
+
+    const section = [
+      RELATED_START,
+      '### Related pull requests',
+      ...siblings.map(pr => `- ${pr.owner}/${pr.repo}#${pr.number}`),
+      RELATED_END
+    ].join('\n');
+
+    return base ? `${base}\n\n${section}` : section;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * PR status poller - keeps a TTL cache of PR/CI status for every issue repo
+ */
+
+import * as vscode from 'vscode';
+import { GitHubService } from './githubService';
+import { StateManager } from './stateManager';
+import { ConfigManager } from '../config/configManager';
+import { Issue, PullRequestRef, PullRequestStatus } from '../models/types';
+
+interface CacheEntry {
+  status: PullRequestStatus;
+  fetchedAt: number;
+}
+
+export class PRStatusPoller implements vscode.Disposable {
+  private cache: Map<string, CacheEntry> = new Map(); // "owner/repo#number" -> status
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  private _onDidUpdate: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidUpdate: vscode.Event<void> = this._onDidUpdate.event;
+
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager
+  ) {}
+
+  /**
+   * Start periodic polling (no-op if the interval is 0)
+   */
+  start(): void {
+    this.stop();
+
+    const intervalMs = this.getIntervalMs();
+    if (intervalMs <= 0) {
+      return;
+    }
+
+    // Timer ticks always refetch: entries fetched by the previous tick are younger than the TTL
+    this.timer = setInterval(() => this.poll(true), intervalMs);
+    this.poll();
+  }
+
+  /**
+   * Stop periodic polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get cached status for a pull request (never hits the network)
+   */
+  getStatus(pr: PullRequestRef): PullRequestStatus | undefined {
+    return this.cache.get(this.getCacheKey(pr))?.status;
+  }
+
+  /**
+   * Fetch status for every PR whose cache entry has expired
+   */
+  async poll(force: boolean = false): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      const githubService = await GitHubService.createSilent(this.configManager.getConfig());
+      if (!githubService) {
+        return;
+      }
+
+      const ttlMs = this.getIntervalMs();
+      let updated = false;
+
+      for (const project of this.configManager.loadProjects()) {
+        for (const issue of this.stateManager.loadIssues(project.id)) {
+          if (issue.status !== 'active' && issue.status !== 'pr_created') {
+            continue;
+          }
+
+          for (const repoState of issue.repos) {
+            const pr = repoState.pullRequest;
+            if (!pr) {
+              continue;
+            }
+
+            const entry = this.cache.get(this.getCacheKey(pr));
+            if (!force && entry && Date.now() - entry.fetchedAt < ttlMs) {
+              continue;
+            }
+
+            try {
+              const status = await githubService.getPullRequestStatus(pr);
+              this.cache.set(this.getCacheKey(pr), { status, fetchedAt: Date.now() });
+              updated = true;
+            } catch (error) {
+              console.warn(`Failed to fetch status for ${this.getCacheKey(pr)}: ${error}`);
+            }
+          }
+
+          if (await this.markMergedIfComplete(project.id, issue)) {
+            updated = true;
+          }
+        }
+      }
+
+      if (updated) {
+        this._onDidUpdate.fire();
+      }
+    } catch (error) {
+      console.warn(`PR status polling failed: ${error}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Move an issue to merged when all of its PRs are merged
+   */
+  private async markMergedIfComplete(projectId: string, issue: Issue): Promise<boolean> {
+    const pullRequests = issue.repos
+      .map(r => r.pullRequest)
+      .filter((pr): pr is PullRequestRef => pr !== undefined);
+
+    if (pullRequests.length === 0) {
+      return false;
+    }
+
+    const allMerged = pullRequests.every(pr => this.getStatus(pr)?.state === 'merged');
+    if (!allMerged) {
+      return false;
+    }
+
+    await this.stateManager.updateIssueStatus(projectId, issue.id, 'merged');
+    return true;
+  }
+
+  private getIntervalMs(): number {
+    return (this.configManager.getConfig().github?.statusPollInterval ?? 120) * 1000;
+  }
+
+  private getCacheKey(pr: PullRequestRef): string {
+    return `${pr.owner}/${pr.repo}#${pr.number}`;
+  }
+
+  dispose(): void {
+    this.stop();
+    this._onDidUpdate.dispose();
+  }
+}
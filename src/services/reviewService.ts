@@ -0,0 +1,98 @@
+/**
+ * Review service - AI code review of an issue's combined cross-repo changeset
+ */
+
+import { ModelProvider } from './modelProvider';
+import { Issue, RepoChangeset, ReviewFinding, ReviewResult, ReviewSeverity } from '../models/types';
+
+/**
+ * Model response as requested in the prompt (unchecked until validated)
+ */
+interface ReviewResponse {
+  summary?: unknown;
+  findings?: Array<RawFinding | null>;
+}
+
+interface RawFinding {
+  repo?: unknown;
+  file?: unknown;
+  line?: unknown;
+  severity?: unknown;
+  message?: unknown;
+}
+
+export class ReviewService {
+  constructor(private modelProvider: ModelProvider) {}
+
+  /**
+   * Review all repo changes of an issue as one changeset
+   */
+  async review(issue: Issue, changesets: RepoChangeset[]): Promise<ReviewResult> {
+    if (changesets.length === 0) {
+      return { summary: 'No changes to review', findings: [] };
+    }
+
+    const response = await this.modelProvider.generate(this.buildPrompt(issue, changesets), { json: true });
+    return this.parseResponse(response, changesets);
+  }
+
+  /**
+   * Build review prompt with every repo diff
+   */
+  private buildPrompt(issue: Issue, changesets: RepoChangeset[]): string {
+    const sections = changesets.map(c =>
+      `=== Repository: ${c.repoName} (branch ${c.branch}, base ${c.baseRef}) ===\n${c.diff}`
+    );
+
+    return [
+      'You are reviewing one change that spans multiple repositories.',
+      'Review the diffs together: look for bugs, security problems, and inconsistencies',
+      'between repositories (e.g., API contracts, shared types, config keys).',
+      '',
+      `Issue: ${issue.id}${issue.title ? ` - ${issue.title}` : ''}`,
+      issue.description ? `Description:\n${issue.description}` : '',
+      '',
+      'Respond with JSON only, in this shape:',
+      '{"summary": string, "findings": [{"repo": string, "file": string, "line": number,',
+      ' "severity": "error" | "warning" | "info", "message": string}]}',
+      '"repo" must be one of the repository names below, "file" a path relative to the repository root,',
+      'and "line" a 1-based line number in the new version of the file.',
+      '',
+      ...sections
+    ].join('\n');
+  }
+
+  /**
+   * Parse model response, dropping findings for unknown repos
+   */
+  private parseResponse(response: string, changesets: RepoChangeset[]): ReviewResult {
+    // Tolerate markdown code fences around the JSON
+    const json = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+    let data: ReviewResponse;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Failed to parse review response: ${error}`);
+    }
+
+    const repoNames = new Set(changesets.map(c => c.repoName));
+    const severities: ReviewSeverity[] = ['error', 'warning', 'info'];
+
+    const findings: ReviewFinding[] = (Array.isArray(data.findings) ? data.findings : [])
+      .filter((f): f is RawFinding & { repo: string; file: string } =>
+        !!f && typeof f.repo === 'string' && repoNames.has(f.repo) && typeof f.file === 'string' && !!f.message)
+      .map(f => ({
+        repo: f.repo,
+        file: f.file.replace(/^\.?\//, ''),
+        line: Math.max(1, parseInt(String(f.line), 10) || 1),
+        severity: severities.find(severity => severity === f.severity) || 'info',
+        message: String(f.message)
+      }));
+
+    return {
+      summary: typeof data.summary === 'string' ? data.summary : '',
+      findings
+    };
+  }
+}
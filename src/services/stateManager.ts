@@ -5,10 +5,36 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { Issue, IssuesData, Project } from '../models/types';
+import { Issue, IssuesData, Project, PullRequestRef, RepoState } from '../models/types';
 import { getProjectDataDir } from '../config/paths';
+import { withFileLock, writeFileAtomic } from './fileLock';
+
+/**
+ * Issue as read from issues.yaml: extension format, or CLI format (snake_case keys, "repositories")
+ */
+interface RawIssue extends Partial<Omit<Issue, 'repos'>> {
+  repos?: RepoState[];
+  repositories?: RawRepoState[];
+  workspace?: { path?: string };
+  project_id?: string;
+  tracker_url?: string;
+  created_at?: string;
+  updated_at?: string;
+  archived_at?: string;
+}
+
+interface RawRepoState extends Partial<RepoState> {
+  pull_request?: PullRequestRef;
+  base_ref?: string;
+  base_branch?: string;
+  copied_files?: string[];
+  linked_files?: string[];
+}
 
 export class StateManager {
+  // Issue objects handed out by loadIssues -> the issue as read from disk (merge base for saveIssue)
+  private snapshots = new WeakMap<Issue, Issue>();
+
   constructor(private configDir: string) {}
 
   /**
@@ -22,25 +48,40 @@ export class StateManager {
     }
 
     try {
-      const content = fs.readFileSync(issuesFile, 'utf-8');
-      const data: any = yaml.parse(content);
+      const issues = this.parseIssues(fs.readFileSync(issuesFile, 'utf-8'));
 
-      if (!data || !Array.isArray(data.issues)) {
-        return [];
+      for (const issue of issues) {
+        this.snapshots.set(issue, clone(issue));
       }
 
-      // Convert CLI format to Extension format if needed
-      return data.issues.map((issue: any) => this.normalizeIssue(issue)).filter((i: Issue | null) => i !== null);
+      return issues;
     } catch (error) {
       console.error(`Failed to load issues for ${projectId}: ${error}`);
       return [];
     }
   }
 
+  /**
+   * Parse issues.yaml content (throws on invalid YAML)
+   */
+  private parseIssues(content: string): Issue[] {
+    const data: unknown = yaml.parse(content);
+
+    if (!isObject(data) || !Array.isArray(data.issues)) {
+      return [];
+    }
+
+    // Convert CLI format to Extension format if needed
+    return data.issues
+      .filter(isObject)
+      .map(issue => this.normalizeIssue(issue as RawIssue))
+      .filter((i): i is Issue => i !== null);
+  }
+
   /**
    * Normalize issue data from CLI format to Extension format
    */
-  private normalizeIssue(rawIssue: any): Issue | null {
+  private normalizeIssue(rawIssue: RawIssue): Issue | null {
     if (!rawIssue || !rawIssue.id) {
       return null;
     }
@@ -56,12 +97,17 @@ export class StateManager {
 
     // Normalize repositories array
     const repos = Array.isArray(rawIssue.repositories)
-      ? rawIssue.repositories.map((repo: any) => ({
+      ? rawIssue.repositories.map((repo): RepoState => ({
           name: repo.name || '',
           branch: repo.branch || '',
           worktreePath: repo.worktreePath || path.join(workspaceDir, repo.name || ''),
           created: repo.created || false,
-          pushed: repo.pushed || false
+          pushed: repo.pushed || false,
+          pullRequest: repo.pullRequest || repo.pull_request,
+          baseRef: repo.baseRef || repo.base_ref,
+          baseBranch: repo.baseBranch || repo.base_branch,
+          copiedFiles: repo.copiedFiles || repo.copied_files,
+          linkedFiles: repo.linkedFiles || repo.linked_files
         }))
       : (Array.isArray(rawIssue.repos) ? rawIssue.repos : []);
 
@@ -69,42 +115,82 @@ export class StateManager {
       id: rawIssue.id,
       title: rawIssue.title,
       description: rawIssue.description,
+      labels: Array.isArray(rawIssue.labels) ? rawIssue.labels : undefined,
+      trackerUrl: rawIssue.trackerUrl || rawIssue.tracker_url,
+      assignee: rawIssue.assignee,
+      notes: rawIssue.notes,
       projectId: rawIssue.projectId || rawIssue.project_id || '',
       status: rawIssue.status || 'active',
       workspaceDir,
       repos,
       createdAt: rawIssue.createdAt || rawIssue.created_at || new Date().toISOString(),
-      updatedAt: rawIssue.updatedAt || rawIssue.updated_at || new Date().toISOString()
+      updatedAt: rawIssue.updatedAt || rawIssue.updated_at || new Date().toISOString(),
+      archivedAt: rawIssue.archivedAt || rawIssue.archived_at
     };
   }
 
   /**
    * Save an issue to the issues.yaml file
+   * If the issue changed on disk since this object was loaded (CLI or another window),
+   * the changes are merged field by field; fields changed here win
+   * The issue itself is compared rather than the file revision, which the CLI does not bump
    */
-  saveIssue(projectId: string, issue: Issue): void {
-    const issues = this.loadIssues(projectId);
+  async saveIssue(projectId: string, issue: Issue): Promise<void> {
+    const base = this.snapshots.get(issue);
+
+    await this.updateIssues(projectId, issues => {
+      const current = issues.find(i => i.id === issue.id);
+
+      if (current && base && !isEqual(current, base)) {
+        console.warn(`Issue ${issue.id} was changed concurrently; merging changes`);
+        const merged = mergeIssue(base, issue, current);
+
+        // Hand the merged state back to the caller's object
+        for (const key of Object.keys(issue) as Array<keyof Issue>) {
+          delete issue[key];
+        }
+        Object.assign(issue, merged);
+      }
+
+      // Remove existing issue with same ID if exists
+      const filteredIssues = issues.filter(i => i.id !== issue.id);
 
-    // Remove existing issue with same ID if exists
-    const filteredIssues = issues.filter(i => i.id !== issue.id);
+      // Add new/updated issue
+      filteredIssues.push(issue);
 
-    // Add new/updated issue
-    filteredIssues.push(issue);
+      // Sort by createdAt (newest first)
+      filteredIssues.sort((a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
 
-    // Sort by createdAt (newest first)
-    filteredIssues.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+      return filteredIssues;
+    });
 
-    this.saveIssuesFile(projectId, filteredIssues);
+    // Later saves of this object merge against what was written now
+    this.snapshots.set(issue, clone(issue));
   }
 
   /**
    * Delete an issue from the issues.yaml file
    */
-  deleteIssue(projectId: string, issueId: string): void {
-    const issues = this.loadIssues(projectId);
-    const filteredIssues = issues.filter(i => i.id !== issueId);
-    this.saveIssuesFile(projectId, filteredIssues);
+  async deleteIssue(projectId: string, issueId: string): Promise<void> {
+    await this.updateIssues(projectId, issues => issues.filter(i => i.id !== issueId));
+  }
+
+  /**
+   * Replace an issue under a new ID in one write (the ID is the key of an issue)
+   */
+  async renameIssue(projectId: string, oldId: string, issue: Issue): Promise<void> {
+    await this.updateIssues(projectId, issues => {
+      if (!issues.some(i => i.id === oldId)) {
+        throw new Error(`Issue not found: ${oldId}`);
+      }
+      if (issues.some(i => i.id === issue.id)) {
+        throw new Error(`Issue already exists: ${issue.id}`);
+      }
+
+      return issues.map(i => i.id === oldId ? issue : i);
+    });
   }
 
   /**
@@ -132,15 +218,57 @@ export class StateManager {
   /**
    * Update issue status
    */
-  updateIssueStatus(projectId: string, issueId: string, status: Issue['status']): void {
+  async updateIssueStatus(projectId: string, issueId: string, status: Issue['status']): Promise<void> {
     const issue = this.getIssue(projectId, issueId);
     if (issue) {
       issue.status = status;
       issue.updatedAt = new Date().toISOString();
-      this.saveIssue(projectId, issue);
+      await this.saveIssue(projectId, issue);
+    }
+  }
+
+  /**
+   * Load archived issues of a project (data/{project}/archive.yaml)
+   */
+  loadArchivedIssues(projectId: string): Issue[] {
+    const archiveFile = this.getArchiveFilePath(projectId);
+
+    if (!fs.existsSync(archiveFile)) {
+      return [];
+    }
+
+    try {
+      return this.parseIssues(fs.readFileSync(archiveFile, 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to load archived issues for ${projectId}: ${error}`);
+      return [];
     }
   }
 
+  /**
+   * Get a specific archived issue
+   */
+  getArchivedIssue(projectId: string, issueId: string): Issue | undefined {
+    return this.loadArchivedIssues(projectId).find(i => i.id === issueId);
+  }
+
+  /**
+   * Move an issue from issues.yaml to archive.yaml
+   * The archive is written first so a failure never loses the issue
+   */
+  async archiveIssue(projectId: string, issue: Issue): Promise<void> {
+    await this.updateArchive(projectId, archived => [issue, ...archived.filter(i => i.id !== issue.id)]);
+    await this.deleteIssue(projectId, issue.id);
+  }
+
+  /**
+   * Move an archived issue back to issues.yaml
+   */
+  async restoreArchivedIssue(projectId: string, issue: Issue): Promise<void> {
+    await this.saveIssue(projectId, issue);
+    await this.updateArchive(projectId, archived => archived.filter(i => i.id !== issue.id));
+  }
+
   /**
    * Get issues file path for a project
    */
@@ -150,9 +278,46 @@ export class StateManager {
   }
 
   /**
-   * Save issues to file
+   * Get archive file path for a project
    */
-  private saveIssuesFile(projectId: string, issues: Issue[]): void {
+  private getArchiveFilePath(projectId: string): string {
+    const dataDir = getProjectDataDir(this.configDir, projectId);
+    return path.join(dataDir, 'archive.yaml');
+  }
+
+  /**
+   * Read-modify-write archive.yaml under its lock
+   */
+  private async updateArchive(projectId: string, mutate: (issues: Issue[]) => Issue[]): Promise<void> {
+    const archiveFile = this.getArchiveFilePath(projectId);
+    const dataDir = path.dirname(archiveFile);
+
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    await withFileLock(archiveFile, () => {
+      const content = fs.existsSync(archiveFile) ? fs.readFileSync(archiveFile, 'utf-8') : '';
+
+      let revision = 0;
+      let issues: Issue[] = [];
+      try {
+        revision = Number(yaml.parse(content)?.revision) || 0;
+        issues = this.parseIssues(content);
+      } catch (error) {
+        throw new Error(`Cannot update ${archiveFile}: ${error}`);
+      }
+
+      const data: IssuesData = { revision: revision + 1, issues: mutate(issues) };
+      writeFileAtomic(archiveFile, yaml.stringify(data));
+    });
+  }
+
+  /**
+   * Read-modify-write issues.yaml under its lock
+   * The file is re-read inside the lock so concurrent writes to other issues are kept
+   */
+  private async updateIssues(projectId: string, mutate: (issues: Issue[]) => Issue[]): Promise<void> {
     const issuesFile = this.getIssuesFilePath(projectId);
     const dataDir = path.dirname(issuesFile);
 
@@ -161,9 +326,89 @@ export class StateManager {
       fs.mkdirSync(dataDir, { recursive: true });
     }
 
-    const data: IssuesData = { issues };
-    const content = yaml.stringify(data);
+    await withFileLock(issuesFile, () => {
+      const content = fs.existsSync(issuesFile) ? fs.readFileSync(issuesFile, 'utf-8') : '';
+
+      let revision = 0;
+      let issues: Issue[] = [];
+      try {
+        revision = Number(yaml.parse(content)?.revision) || 0;
+        issues = this.parseIssues(content);
+      } catch (error) {
+        // Never overwrite a file we cannot read
+        throw new Error(`Cannot update ${issuesFile}: ${error}`);
+      }
 
-    fs.writeFileSync(issuesFile, content, 'utf-8');
+      const data: IssuesData = { revision: revision + 1, issues: mutate(issues) };
+      writeFileAtomic(issuesFile, yaml.stringify(data));
+    });
   }
 }
+
+/**
+ * Deep equality for plain YAML data, ignoring key order
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a).filter(key => a[key] !== undefined);
+    return keys.length === Object.keys(b).filter(key => b[key] !== undefined).length &&
+      keys.every(key => isEqual(a[key], b[key]));
+  }
+  return a === b;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Three-way merge of an issue: fields changed in ours (vs base) win, others come from theirs
+ * Repos are merged per repo name, so repos added/removed on either side are kept/removed
+ */
+export function mergeIssue(base: Issue, ours: Issue, theirs: Issue): Issue {
+  const merged = mergeFields(base, ours, theirs);
+
+  const baseRepos = new Map(base.repos.map(r => [r.name, r]));
+  const ourRepos = new Map(ours.repos.map(r => [r.name, r]));
+  const theirRepos = new Map(theirs.repos.map(r => [r.name, r]));
+  const names = [...new Set([...ours.repos, ...theirs.repos].map(r => r.name))];
+
+  merged.repos = names.flatMap(name => {
+    const baseRepo = baseRepos.get(name);
+    const ourRepo = ourRepos.get(name);
+    const theirRepo = theirRepos.get(name);
+
+    if (ourRepo && theirRepo) {
+      return [baseRepo ? mergeFields(baseRepo, ourRepo, theirRepo) : ourRepo];
+    }
+    if (ourRepo) {
+      // Missing in theirs: removed there unless we added or changed it
+      return !baseRepo || !isEqual(baseRepo, ourRepo) ? [ourRepo] : [];
+    }
+    // Missing in ours: removed here unless they added or changed it
+    return theirRepo && (!baseRepo || !isEqual(baseRepo, theirRepo)) ? [theirRepo] : [];
+  });
+
+  return merged;
+}
+
+function mergeFields<T extends object>(base: T, ours: T, theirs: T): T {
+  const merged: Partial<T> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)] as Array<keyof T>);
+
+  for (const key of keys) {
+    const value = isEqual(ours[key], base[key]) ? theirs[key] : ours[key];
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
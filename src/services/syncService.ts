@@ -0,0 +1,112 @@
+/**
+ * Sync service - rebases or merges an issue's branches onto their updated base refs
+ */
+
+import { GitService, resolveBaseRef } from './gitService';
+import { StateManager } from './stateManager';
+import { ConfigManager } from '../config/configManager';
+import { SyncResult, SyncStrategy } from '../models/types';
+
+export class SyncService {
+  private gitService: GitService;
+
+  constructor(
+    private configManager: ConfigManager,
+    private stateManager: StateManager
+  ) {
+    this.gitService = new GitService();
+  }
+
+  /**
+   * Fetch every repo and rebase/merge its issue branch onto its base ref
+   * Repos with uncommitted changes or an operation in progress are skipped;
+   * a conflicting repo is left mid-operation so it can be resolved and continued
+   * Limited to repoNames when given
+   */
+  async syncIssue(
+    projectId: string,
+    issueId: string,
+    strategy: SyncStrategy,
+    onProgress?: (message: string) => void,
+    repoNames?: string[]
+  ): Promise<SyncResult[]> {
+    const issue = this.stateManager.getIssue(projectId, issueId);
+    if (!issue) {
+      throw new Error(`Issue not found: ${issueId}`);
+    }
+
+    const project = this.configManager.loadProject(projectId);
+    if (!project) {
+      throw new Error(`Project not found: ${projectId}`);
+    }
+
+    const results: SyncResult[] = [];
+
+    for (const repoState of issue.repos) {
+      if (repoNames && !repoNames.includes(repoState.name)) {
+        continue;
+      }
+
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      if (!repo) {
+        results.push({ repoName: repoState.name, baseRef: '', outcome: 'failed', message: 'Repository not in project' });
+        continue;
+      }
+
+      const baseRef = resolveBaseRef(repo, repoState);
+      const result: SyncResult = { repoName: repoState.name, baseRef, outcome: 'updated' };
+      results.push(result);
+
+      try {
+        if (!await this.gitService.worktreeExists(repoState.worktreePath)) {
+          result.outcome = 'skipped';
+          result.message = 'Worktree missing';
+          continue;
+        }
+
+        onProgress?.(`Fetching ${repoState.name}...`);
+        try {
+          await this.gitService.fetchRemote(repo.path, repo.remote || 'origin');
+        } catch (error) {
+          console.warn(`Failed to fetch ${repoState.name}: ${error}`);
+        }
+
+        const status = await this.gitService.getWorktreeStatus(repoState.worktreePath, baseRef);
+        if (status.operation) {
+          result.outcome = 'skipped';
+          result.message = `${status.operation} in progress`;
+          continue;
+        }
+        if (status.staged + status.modified + status.conflicted > 0) {
+          result.outcome = 'skipped';
+          result.message = 'Uncommitted changes';
+          continue;
+        }
+        if (status.baseBehind === 0) {
+          result.outcome = 'up_to_date';
+          continue;
+        }
+
+        onProgress?.(`${strategy === 'rebase' ? 'Rebasing' : 'Merging'} ${repoState.name} onto ${baseRef}...`);
+        try {
+          await this.gitService.integrateBase(repoState.worktreePath, baseRef, strategy);
+        } catch (error) {
+          // Conflicts are reported below; anything else is a failure
+          if (!await this.gitService.getInProgressOperation(repoState.worktreePath)) {
+            throw error;
+          }
+        }
+
+        if (await this.gitService.getInProgressOperation(repoState.worktreePath)) {
+          result.outcome = 'conflict';
+          result.message = (await this.gitService.getConflictedFiles(repoState.worktreePath)).join(', ');
+        }
+      } catch (error) {
+        result.outcome = 'failed';
+        result.message = `${error}`;
+      }
+    }
+
+    return results;
+  }
+}
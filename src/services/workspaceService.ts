@@ -4,30 +4,110 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { Repository } from '../models/types';
+import { Issue, Project, RepoState, WorkspaceTemplate } from '../models/types';
+import { resolveBaseRef } from './gitService';
 
 interface WorkspaceFolder {
   path: string;
   name?: string;
 }
 
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Template entries written by the last generation (setting keys, launch configuration names, task labels)
+ */
+interface GeneratedEntries {
+  settings?: string[];
+  extensions?: string[];
+  configurations?: string[];
+  compounds?: string[];
+  tasks?: string[];
+}
+
 interface WorkspaceFile {
   folders: WorkspaceFolder[];
-  settings?: Record<string, any>;
+  settings?: JsonObject;
+  extensions?: { recommendations?: string[]; [key: string]: unknown };
+  launch?: { version?: string; configurations?: JsonObject[]; compounds?: JsonObject[]; [key: string]: unknown };
+  tasks?: { version?: string; tasks?: JsonObject[]; [key: string]: unknown };
+  [GENERATED_KEY]?: GeneratedEntries;
+  [key: string]: unknown;
 }
 
+// Workspace file key recording the generated template entries, so entries later removed
+// from the template are dropped instead of being kept as hand-added ones
+const GENERATED_KEY = 'mrm.generated';
+
+// First line of generated worktree .claude.md files; files without it are never overwritten
+const GENERATED_MARKER = '<!-- Generated by Multiroot Manager from the issue; changes are overwritten -->';
+
+const DEFAULT_SETTINGS: Record<string, unknown> = {
+  'files.exclude': {
+    '**/.git': true
+  }
+};
+
 export class WorkspaceService {
   /**
    * Generate .code-workspace file for an issue
+   * Folder paths are relative to the issue directory (e.g., ./{org}/{repo})
+   * An existing file is merged: folders and template entries are regenerated, while settings,
+   * extensions, launch configurations and tasks added by hand are kept (hand settings override the defaults)
    */
   generateWorkspace(
     issueDir: string,
     issueId: string,
-    repos: Repository[],
-    repoOrgs?: Map<string, string> // repo.name -> org
+    repos: RepoState[],
+    template?: WorkspaceTemplate
   ): string {
     const workspaceFilePath = path.join(issueDir, `${issueId}.code-workspace`);
 
+    let existing: WorkspaceFile | undefined;
+    try {
+      existing = this.readWorkspaceFile(workspaceFilePath);
+    } catch (error) {
+      console.warn(`Cannot read ${workspaceFilePath} (${error}); keeping it as .bak`);
+      fs.copyFileSync(workspaceFilePath, `${workspaceFilePath}.bak`);
+    }
+
+    fs.writeFileSync(
+      workspaceFilePath,
+      JSON.stringify(this.buildWorkspace(issueDir, repos, template, existing), null, 2),
+      'utf-8'
+    );
+
+    return workspaceFilePath;
+  }
+
+  /**
+   * Render the .code-workspace content generateWorkspace would write, without writing it
+   */
+  renderWorkspace(
+    issueDir: string,
+    issueId: string,
+    repos: RepoState[],
+    template?: WorkspaceTemplate
+  ): string {
+    let existing: WorkspaceFile | undefined;
+    try {
+      existing = this.readWorkspaceFile(path.join(issueDir, `${issueId}.code-workspace`));
+    } catch {
+      // An unreadable file is replaced
+    }
+
+    return JSON.stringify(this.buildWorkspace(issueDir, repos, template, existing), null, 2);
+  }
+
+  /**
+   * Build workspace content from the repos and template, merged into an existing file's content
+   */
+  buildWorkspace(
+    issueDir: string,
+    repos: RepoState[],
+    template: WorkspaceTemplate | undefined,
+    existing: WorkspaceFile | undefined
+  ): WorkspaceFile {
     // Create folders array with workspace root first
     const folders: WorkspaceFolder[] = [
       {
@@ -38,63 +118,232 @@ export class WorkspaceService {
 
     // Add repository folders with org-aware naming
     repos.forEach(repo => {
-      const org = repoOrgs?.get(repo.name);
-      const folderPath = org
-        ? `./${org}/${repo.name}`
-        : `./${repo.name}`;
-      const folderName = org
-        ? `${org}/${repo.name}`
-        : repo.name;
+      const relativePath = path.relative(issueDir, repo.worktreePath).split(path.sep).join('/');
 
       folders.push({
-        path: folderPath,
-        name: folderName
+        path: `./${relativePath}`,
+        name: relativePath
       });
     });
 
-    // Create workspace configuration
+    const worktrees = new Map(repos.map(repo => [repo.name, repo.worktreePath]));
+    const resolved = resolveTemplate(template || {}, worktrees);
+
+    // Entries defined by the template now or at the last generation are always regenerated (and dropped
+    // when their repo left the issue or the template no longer has them); anything else was added by hand
+    const previous = existing?.[GENERATED_KEY] || {};
+    const generated: GeneratedEntries = {
+      settings: Object.keys(template?.settings || {}),
+      extensions: template?.extensions || [],
+      configurations: keysOf(template?.launch?.configurations, 'name'),
+      compounds: keysOf(template?.launch?.compounds, 'name'),
+      tasks: keysOf(template?.tasks, 'label')
+    };
+    const isOwned = (entries: keyof GeneratedEntries, key: unknown): boolean =>
+      [...(generated[entries] || []), ...(previous[entries] || [])].includes(key as string);
+
+    const handSettings = Object.fromEntries(
+      Object.entries(existing?.settings || {}).filter(([key]) => !isOwned('settings', key))
+    );
     const workspace: WorkspaceFile = {
+      ...existing,
       folders,
       settings: {
-        'files.exclude': {
-          '**/.git': true
-        }
+        ...DEFAULT_SETTINGS,
+        ...handSettings,
+        ...resolved.settings
       }
     };
 
-    // Write workspace file
-    fs.writeFileSync(
-      workspaceFilePath,
-      JSON.stringify(workspace, null, 2),
-      'utf-8'
-    );
+    const handRecommendations = (existing?.extensions?.recommendations || []).filter(id => !isOwned('extensions', id));
+    const recommendations = [...new Set([...handRecommendations, ...(resolved.extensions || [])])];
+    if (recommendations.length > 0 || existing?.extensions) {
+      workspace.extensions = { ...existing?.extensions, recommendations };
+    }
 
-    return workspaceFilePath;
+    const configurations = mergeByKey(existing?.launch?.configurations, key => isOwned('configurations', key), resolved.launch?.configurations, 'name');
+    const compounds = mergeByKey(existing?.launch?.compounds, key => isOwned('compounds', key), resolved.launch?.compounds, 'name');
+    if (configurations.length > 0 || compounds.length > 0 || existing?.launch) {
+      workspace.launch = {
+        ...existing?.launch,
+        version: existing?.launch?.version || '0.2.0',
+        configurations,
+        compounds: compounds.length > 0 ? compounds : undefined
+      };
+    }
+
+    const tasks = mergeByKey(existing?.tasks?.tasks, key => isOwned('tasks', key), resolved.tasks, 'label');
+    if (tasks.length > 0 || existing?.tasks) {
+      workspace.tasks = { ...existing?.tasks, version: existing?.tasks?.version || '2.0.0', tasks };
+    }
+
+    if (Object.values(generated).some(keys => keys.length > 0)) {
+      workspace[GENERATED_KEY] = generated;
+    } else {
+      delete workspace[GENERATED_KEY];
+    }
+
+    return workspace;
   }
 
   /**
-   * Generate .claude.md context file for issue
+   * Read an existing .code-workspace file (JSON with comments)
+   * Throws if the file cannot be parsed
    */
-  generateClaudeContext(
-    issueDir: string,
-    issueId: string,
-    title?: string,
-    description?: string
-  ): void {
-    const contextFilePath = path.join(issueDir, '.claude.md');
+  readWorkspaceFile(workspaceFilePath: string): WorkspaceFile | undefined {
+    if (!fs.existsSync(workspaceFilePath)) {
+      return undefined;
+    }
+
+    const parsed = parseJsonc(fs.readFileSync(workspaceFilePath, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not a JSON object');
+    }
+    return parsed as WorkspaceFile;
+  }
+
+  /**
+   * Generate .claude.md context files: one for the issue directory and one per worktree
+   * Worktree files are only written when missing or generated earlier, so a .claude.md
+   * committed in the repository is left alone
+   */
+  generateClaudeContext(issueDir: string, issue: Issue, project?: Project, worktreeTemplate?: string): void {
+    fs.writeFileSync(path.join(issueDir, '.claude.md'), this.renderClaudeContext(issue, project), 'utf-8');
+
+    if (project) {
+      for (const file of this.renderWorktreeContexts(issue, project, worktreeTemplate)) {
+        fs.writeFileSync(file.filePath, file.content, 'utf-8');
+      }
+    }
+  }
+
+  /**
+   * Render the .claude.md content for an issue directory
+   */
+  renderClaudeContext(issue: Issue, project?: Project): string {
+    const trackerLines = [
+      issue.trackerUrl ? `- URL: ${issue.trackerUrl}` : '',
+      issue.labels && issue.labels.length > 0 ? `- Labels: ${issue.labels.join(', ')}` : '',
+      issue.assignee ? `- Assignee: ${issue.assignee}` : ''
+    ].filter(Boolean);
 
-    const content = `# Issue: ${issueId}
+    return `# Issue: ${issue.id}
 
-${title ? `## Title\n${title}\n\n` : ''}${description ? `## Description\n${description}\n\n` : ''}## Context
+${issue.title ? `## Title\n${issue.title}\n\n` : ''}${trackerLines.length > 0 ? `## Tracker\n${trackerLines.join('\n')}\n\n` : ''}${issue.description ? `## Description\n${issue.description}\n\n` : ''}${issue.notes ? `## Notes\n${issue.notes}\n\n` : ''}## Context
 
-This workspace contains multiple repositories for working on issue ${issueId}.
+This workspace contains ${issue.repos.length} ${issue.repos.length === 1 ? 'repository' : 'repositories'}${project ? ` of project ${project.name}` : ''} for working on issue ${issue.id}.
+Each repository folder is a git worktree checked out on the issue branch.
 
 ## Repositories
 
-Check the workspace folders to see all repositories included in this issue.
+${this.renderRepoList(issue, project)}
+`;
+  }
+
+  /**
+   * Render the .claude.md files of the worktrees that exist and may be (re)written
+   * The template (project "claude.template") may use {issue_id}, {issue_title}, {repo_name}, {branch}, ... variables
+   */
+  renderWorktreeContexts(
+    issue: Issue,
+    project: Project,
+    template?: string
+  ): Array<{ filePath: string; content: string }> {
+    const repoList = this.renderRepoList(issue, project);
+
+    return issue.repos
+      .filter(repoState => fs.existsSync(repoState.worktreePath))
+      .map(repoState => {
+        const repo = project.repositories.find(r => r.name === repoState.name);
+        const variables: Record<string, string> = {
+          project_name: project.name,
+          issue_id: issue.id,
+          issue_title: issue.title || '',
+          issue_description: issue.description || '',
+          tracker_url: issue.trackerUrl || '',
+          labels: (issue.labels || []).join(', '),
+          assignee: issue.assignee || '',
+          notes: issue.notes || '',
+          issue_dir: issue.workspaceDir,
+          repo_name: repoState.name,
+          repo_description: repo?.description || '',
+          branch: repoState.branch,
+          base: repo ? resolveBaseRef(repo, repoState) : repoState.baseRef || '',
+          worktree_path: repoState.worktreePath,
+          repos: repoList
+        };
+
+        const body = template
+          ? template.replace(/\{(\w+)\}/g, (match, name: string) => variables[name] ?? match)
+          : this.renderDefaultWorktreeContext(issue, variables);
+
+        return {
+          filePath: path.join(repoState.worktreePath, '.claude.md'),
+          content: `${GENERATED_MARKER}\n\n${body}`
+        };
+      })
+      .filter(file => {
+        if (!fs.existsSync(file.filePath)) {
+          return true;
+        }
+        return fs.readFileSync(file.filePath, 'utf-8').startsWith(GENERATED_MARKER);
+      });
+  }
+
+  /**
+   * Copy Claude assets (files or directories) into a worktree without overwriting existing files
+   * Returns the names of the top-level entries that were created
+   */
+  copyClaudeAssets(assetPaths: string[], worktreePath: string): string[] {
+    const created: string[] = [];
+
+    for (const assetPath of assetPaths) {
+      if (!fs.existsSync(assetPath)) {
+        continue;
+      }
+
+      const name = path.basename(assetPath);
+      const target = path.join(worktreePath, name);
+      const existed = fs.existsSync(target);
+
+      fs.cpSync(assetPath, target, { recursive: true, force: false, errorOnExist: false });
+
+      if (!existed) {
+        created.push(name);
+      }
+    }
+
+    return created;
+  }
+
+  private renderDefaultWorktreeContext(issue: Issue, variables: Record<string, string>): string {
+    return `# ${variables.repo_name} for issue ${issue.id}${issue.title ? `: ${issue.title}` : ''}
+
+This repository is checked out on branch \`${variables.branch}\` (based on \`${variables.base}\`).
+${variables.repo_description ? `\n${variables.repo_description}\n` : ''}
+See ${path.join(issue.workspaceDir, '.claude.md')} for the issue description and tracker details.
+
+## Repositories in this issue
+
+${variables.repos}
 `;
+  }
+
+  private renderRepoList(issue: Issue, project?: Project): string {
+    return issue.repos.map(repoState => {
+      const repo = project?.repositories.find(r => r.name === repoState.name);
+      const relativePath = path.relative(issue.workspaceDir, repoState.worktreePath).split(path.sep).join('/');
+      const base = repo ? resolveBaseRef(repo, repoState) : repoState.baseRef;
 
-    fs.writeFileSync(contextFilePath, content, 'utf-8');
+      return [
+        `- **${repoState.name}**${repo?.description ? `: ${repo.description}` : ''}`,
+        `  - Path: ./${relativePath}`,
+        `  - Branch: ${repoState.branch}${base ? ` (base: ${base})` : ''}`,
+        repoState.pullRequest ? `  - Pull request: #${repoState.pullRequest.number} ${repoState.pullRequest.url}` : '',
+        repoState.copiedFiles ? `  - Copied from the main checkout: ${repoState.copiedFiles.join(', ')}` : '',
+        repoState.linkedFiles ? `  - Linked to the main checkout: ${repoState.linkedFiles.join(', ')}` : ''
+      ].filter(Boolean).join('\n');
+    }).join('\n');
   }
 
   /**
@@ -134,3 +383,128 @@ Check the workspace folders to see all repositories included in this issue.
     return path.join(issueDir, `${issueId}.code-workspace`);
   }
 }
+
+const REPO_PLACEHOLDER = /\$\{repo:([^}]+)\}/g;
+
+/**
+ * Resolve ${repo:<name>} placeholders of a template for the repos of an issue
+ * Settings, launch configurations and tasks referencing other repos are left out;
+ * compounds keep only configurations that remain
+ */
+function resolveTemplate(template: WorkspaceTemplate, worktrees: Map<string, string>): WorkspaceTemplate {
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return value.replace(REPO_PLACEHOLDER, (_match, name: string) => worktrees.get(name) as string);
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolve);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item)]));
+    }
+    return value;
+  };
+
+  const isResolvable = (value: unknown): boolean =>
+    [...JSON.stringify(value ?? null).matchAll(REPO_PLACEHOLDER)].every(match => worktrees.has(match[1]));
+
+  const settings = Object.fromEntries(
+    Object.entries(template.settings || {})
+      .filter(([, value]) => isResolvable(value))
+      .map(([key, value]) => [key, resolve(value)])
+  );
+
+  const configurations = (template.launch?.configurations || [])
+    .filter(isResolvable)
+    .map(config => resolve(config) as Record<string, unknown>);
+  const configurationNames = new Set(configurations.map(config => config.name));
+
+  const compounds = (template.launch?.compounds || [])
+    .filter(isResolvable)
+    .map(compound => {
+      const resolved = resolve(compound) as Record<string, unknown>;
+      const members = Array.isArray(resolved.configurations) ? resolved.configurations : [];
+      return {
+        ...resolved,
+        configurations: members.filter(member =>
+          configurationNames.has(typeof member === 'string' ? member : (member as { name?: string })?.name)
+        )
+      };
+    })
+    .filter(compound => compound.configurations.length > 0);
+
+  return {
+    settings,
+    extensions: template.extensions || [],
+    launch: { configurations, compounds },
+    tasks: (template.tasks || []).filter(isResolvable).map(task => resolve(task) as Record<string, unknown>)
+  };
+}
+
+/**
+ * Merge entries identified by key (e.g., launch configuration name): existing entries owned by the
+ * template are replaced by the generated ones, other existing entries are kept
+ */
+function mergeByKey(
+  existing: JsonObject[] | undefined,
+  isOwned: (key: unknown) => boolean,
+  generated: JsonObject[] | undefined,
+  key: string
+): JsonObject[] {
+  return [
+    ...(existing || []).filter(entry => !isOwned(entry?.[key])),
+    ...(generated || [])
+  ];
+}
+
+/**
+ * String keys (e.g., launch configuration names) of template entries
+ */
+function keysOf(entries: JsonObject[] | undefined, key: string): string[] {
+  return (entries || []).map(entry => entry?.[key]).filter((value): value is string => typeof value === 'string');
+}
+
+/**
+ * Parse JSON with comments and trailing commas (the .code-workspace format)
+ */
+function parseJsonc(content: string): unknown {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === '}' || char === ']') {
+      // Drop a trailing comma before the closing bracket
+      const trimmed = result.trimEnd();
+      if (trimmed.endsWith(',')) {
+        result = trimmed.slice(0, -1);
+      }
+      result += char;
+    } else {
+      result += char;
+    }
+  }
+
+  return JSON.parse(result);
+}
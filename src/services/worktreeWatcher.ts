@@ -0,0 +1,105 @@
+/**
+ * Worktree watcher - signals when files or git metadata of issue worktrees change
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/configManager';
+
+const DEBOUNCE_MS = 1000;
+
+// Git metadata of the main repository and its worktrees that changes with the branch, the staging area
+// or an in-progress rebase/merge; anything else in the git dir (objects, logs, ...) is ignored
+const GIT_METADATA_PATTERN = /^(?:(?:worktrees\/[^/]+\/)?(?:HEAD|index|[A-Z_]+_HEAD|rebase-merge|rebase-apply)|refs\/.+|packed-refs)$/;
+
+/**
+ * Check whether a change to a path relative to a git dir should trigger a refresh
+ * Lock files are skipped: git status creates and renames index.lock even when nothing changed,
+ * so reacting to them would make every refresh trigger the next one
+ */
+export function isWatchedGitPath(relativePath: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  return !normalized.endsWith('.lock') && GIT_METADATA_PATTERN.test(normalized);
+}
+
+export class WorktreeWatcher implements vscode.Disposable {
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private debounceTimer: NodeJS.Timeout | undefined;
+
+  private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+  constructor(private configManager: ConfigManager) {}
+
+  /**
+   * (Re)create watchers for the workspace directory and every project repository
+   */
+  start(): void {
+    this.stopWatchers();
+
+    // Working tree files of all issues (honors files.watcherExclude, e.g. node_modules)
+    const workspaceDir = this.configManager.getWorkspaceDir();
+    if (fs.existsSync(workspaceDir)) {
+      this.watch(new vscode.RelativePattern(vscode.Uri.file(workspaceDir), '**/*'));
+    }
+
+    // Index, HEAD and refs live in the main repository's git dir
+    const gitDirs = new Set<string>();
+    for (const project of this.configManager.loadProjects()) {
+      for (const repo of project.repositories) {
+        gitDirs.add(path.join(repo.path, '.git'));
+      }
+    }
+
+    for (const gitDir of gitDirs) {
+      if (fs.existsSync(gitDir)) {
+        this.watch(
+          new vscode.RelativePattern(vscode.Uri.file(gitDir), '{HEAD,index,*_HEAD,rebase-*,refs/**,packed-refs,worktrees/*/*}'),
+          uri => isWatchedGitPath(path.relative(gitDir, uri.fsPath))
+        );
+      }
+    }
+  }
+
+  private watch(pattern: vscode.RelativePattern, filter: (uri: vscode.Uri) => boolean = () => true): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const onEvent = (uri: vscode.Uri) => {
+      if (filter(uri)) {
+        this.schedule();
+      }
+    };
+    watcher.onDidCreate(onEvent);
+    watcher.onDidChange(onEvent);
+    watcher.onDidDelete(onEvent);
+    this.watchers.push(watcher);
+  }
+
+  /**
+   * Debounce bursts of file events (e.g., checkout, npm install)
+   */
+  private schedule(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      this._onDidChange.fire();
+    }, DEBOUNCE_MS);
+  }
+
+  private stopWatchers(): void {
+    for (const watcher of this.watchers) {
+      watcher.dispose();
+    }
+    this.watchers = [];
+  }
+
+  dispose(): void {
+    this.stopWatchers();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this._onDidChange.dispose();
+  }
+}
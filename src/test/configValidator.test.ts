@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkBranchPattern, validateConfigFile, validateProjectFile } from '../config/configValidator';
+
+suite('checkBranchPattern', () => {
+  test('accepts patterns producing valid branch names', () => {
+    for (const pattern of ['feature/{issue_id}', '{issue_id}', 'users/me/{issue_id}-work']) {
+      assert.strictEqual(checkBranchPattern(pattern), undefined, pattern);
+    }
+  });
+
+  test('requires {issue_id}', () => {
+    assert.strictEqual(checkBranchPattern('feature/x'), 'Branch naming pattern must contain {issue_id}');
+  });
+
+  test('rejects patterns producing invalid branch names', () => {
+    for (const pattern of ['feature {issue_id}', 'feature..{issue_id}', 'feature//{issue_id}', '/{issue_id}', '{issue_id}.lock', 'a:{issue_id}']) {
+      assert.match(checkBranchPattern(pattern) || '', /invalid git branch name/, pattern);
+    }
+  });
+});
+
+suite('validateProjectFile', () => {
+  let repoPath: string;
+
+  setup(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mrm-validator-'));
+    fs.mkdirSync(path.join(repoPath, '.git'));
+  });
+
+  teardown(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  test('accepts a valid project file', () => {
+    const issues = validateProjectFile(`name: Web
+repositories:
+  - name: api
+    path: ${repoPath}
+    copy_files: [.env]
+    copy_mode: symlink
+`);
+
+    assert.deepStrictEqual(issues, []);
+  });
+
+  test('reports missing repositories', () => {
+    const issues = validateProjectFile('name: Web\n');
+
+    assert.deepStrictEqual(issues.map(issue => [issue.message, issue.severity]), [
+      ['Missing required key "repositories"', 'error']
+    ]);
+  });
+
+  test('reports repository problems at their position', () => {
+    const issues = validateProjectFile(`repositories:
+  - name: api
+    path: ${repoPath}
+  - name: api
+    path: /does/not/exist
+    copy_mode: hardlink
+    colour: blue
+`);
+
+    assert.deepStrictEqual(issues.map(issue => [issue.line, issue.message, issue.severity]), [
+      [6, 'Unknown key "colour" (expected: name, path, description, default_branch, remote, hooks, copy_files, copy_mode)', 'warning'],
+      [3, 'Duplicate repository name "api"', 'error'],
+      [4, 'Repository path does not exist: /does/not/exist', 'error'],
+      [5, '"copy_mode" must be "copy" or "symlink"', 'error']
+    ]);
+  });
+
+  test('warns about workspace placeholders naming unknown repositories', () => {
+    const issues = validateProjectFile(`repositories:
+  - name: api
+    path: ${repoPath}
+workspace:
+  settings:
+    front.root: \${repo:front}/src
+`);
+
+    assert.deepStrictEqual(issues.map(issue => [issue.message, issue.severity]), [
+      ['Unknown repository "front" in ${repo:front}', 'warning']
+    ]);
+  });
+
+  test('reports YAML syntax errors', () => {
+    const issues = validateProjectFile('repositories: [\n');
+
+    assert.ok(issues.length > 0);
+    assert.ok(issues.every(issue => issue.severity === 'error'));
+  });
+});
+
+suite('validateConfigFile', () => {
+  test('accepts an empty file', () => {
+    assert.deepStrictEqual(validateConfigFile(''), []);
+  });
+
+  test('checks the branch naming pattern', () => {
+    const issues = validateConfigFile('branchNaming:\n  pattern: feature/x\n');
+
+    assert.deepStrictEqual(issues.map(issue => issue.message), ['Branch naming pattern must contain {issue_id}']);
+  });
+});
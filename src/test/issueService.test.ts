@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IssueService } from '../services/issueService';
+import { StateManager } from '../services/stateManager';
+import { ConfigManager } from '../config/configManager';
+import { Issue, IssueStatus } from '../models/types';
+
+function issue(status: IssueStatus): Issue {
+  return {
+    id: 'SHOP-1',
+    projectId: 'web',
+    status,
+    workspaceDir: '/ws/web/SHOP-1',
+    repos: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+suite('IssueService status transitions', () => {
+  let configDir: string;
+  let stateManager: StateManager;
+  let issueService: IssueService;
+
+  setup(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mrm-issues-'));
+    stateManager = new StateManager(configDir);
+    // Status changes only touch the state file
+    issueService = new IssueService({} as ConfigManager, stateManager);
+  });
+
+  teardown(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  test('allows the documented transitions only', () => {
+    const statuses: IssueStatus[] = ['active', 'pr_created', 'merged', 'closed'];
+    const allowed = statuses.flatMap(from =>
+      statuses.filter(to => issueService.canChangeStatus(from, to)).map(to => `${from} -> ${to}`)
+    );
+
+    assert.deepStrictEqual(allowed, [
+      'active -> pr_created',
+      'active -> merged',
+      'active -> closed',
+      'pr_created -> active',
+      'pr_created -> merged',
+      'pr_created -> closed',
+      'merged -> active',
+      'merged -> closed',
+      'closed -> active'
+    ]);
+  });
+
+  test('changes the status of an issue', async () => {
+    await stateManager.saveIssue('web', issue('active'));
+
+    await issueService.changeIssueStatus('web', 'SHOP-1', 'merged');
+
+    assert.strictEqual(stateManager.getIssue('web', 'SHOP-1')?.status, 'merged');
+  });
+
+  test('rejects a transition that is not allowed', async () => {
+    await stateManager.saveIssue('web', issue('closed'));
+
+    await assert.rejects(
+      issueService.changeIssueStatus('web', 'SHOP-1', 'merged'),
+      /Cannot change SHOP-1 from closed to merged/
+    );
+    assert.strictEqual(stateManager.getIssue('web', 'SHOP-1')?.status, 'closed');
+  });
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mergeIssue, StateManager } from '../services/stateManager';
+import { getProjectDataDir } from '../config/paths';
+import { Issue, RepoState } from '../models/types';
+
+function repo(name: string, overrides: Partial<RepoState> = {}): RepoState {
+  return {
+    name,
+    branch: 'feature/SHOP-1',
+    worktreePath: `/ws/web/SHOP-1/${name}`,
+    created: true,
+    pushed: false,
+    ...overrides
+  };
+}
+
+function issue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'SHOP-1',
+    title: 'Checkout',
+    projectId: 'web',
+    status: 'active',
+    workspaceDir: '/ws/web/SHOP-1',
+    repos: [repo('api'), repo('front')],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+suite('mergeIssue', () => {
+  test('keeps fields changed on either side', () => {
+    const base = issue();
+    const ours = issue({ title: 'Checkout flow' });
+    const theirs = issue({ notes: 'Blocked on API' });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.strictEqual(merged.title, 'Checkout flow');
+    assert.strictEqual(merged.notes, 'Blocked on API');
+  });
+
+  test('ours wins when both sides changed a field', () => {
+    const merged = mergeIssue(issue(), issue({ status: 'closed' }), issue({ status: 'merged' }));
+
+    assert.strictEqual(merged.status, 'closed');
+  });
+
+  test('removes fields cleared on either side', () => {
+    const base = issue({ assignee: 'alice', notes: 'todo' });
+    const ours = issue({ notes: 'todo' });
+    const theirs = issue({ assignee: 'alice' });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.ok(!('assignee' in merged));
+    assert.ok(!('notes' in merged));
+  });
+
+  test('merges repo fields per repo name', () => {
+    const base = issue();
+    const ours = issue({ repos: [repo('api', { pushed: true }), repo('front')] });
+    const theirs = issue({ repos: [repo('api'), repo('front', { pullRequest: { number: 7, url: 'https://github.com/acme/front/pull/7', owner: 'acme', repo: 'front' } })] });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.deepStrictEqual(merged.repos.map(r => [r.name, r.pushed, r.pullRequest?.number]), [
+      ['api', true, undefined],
+      ['front', false, 7]
+    ]);
+  });
+
+  test('keeps repos added on either side', () => {
+    const base = issue();
+    const ours = issue({ repos: [repo('api'), repo('front'), repo('admin')] });
+    const theirs = issue({ repos: [repo('api'), repo('front'), repo('batch')] });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.deepStrictEqual(merged.repos.map(r => r.name).sort(), ['admin', 'api', 'batch', 'front']);
+  });
+
+  test('drops repos removed on either side', () => {
+    const base = issue();
+    const ours = issue({ repos: [repo('api')] });
+    const theirs = issue({ repos: [repo('front')] });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.deepStrictEqual(merged.repos, []);
+  });
+
+  test('keeps a repo removed on one side but changed on the other', () => {
+    const base = issue();
+    const ours = issue({ repos: [repo('api', { pushed: true }), repo('front')] });
+    const theirs = issue({ repos: [repo('front')] });
+
+    const merged = mergeIssue(base, ours, theirs);
+
+    assert.deepStrictEqual(merged.repos.map(r => r.name), ['api', 'front']);
+  });
+});
+
+suite('StateManager.loadIssues', () => {
+  let configDir: string;
+
+  setup(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mrm-state-'));
+    fs.mkdirSync(getProjectDataDir(configDir, 'web'), { recursive: true });
+  });
+
+  teardown(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  test('converts the CLI format and keeps pull requests and local files', () => {
+    fs.writeFileSync(path.join(getProjectDataDir(configDir, 'web'), 'issues.yaml'), `issues:
+  - id: SHOP-1
+    project_id: web
+    created_at: "2024-01-01T00:00:00.000Z"
+    workspace:
+      path: /ws/web/SHOP-1/SHOP-1.code-workspace
+    repositories:
+      - name: api
+        branch: feature/SHOP-1
+        pushed: true
+        base_ref: origin/main
+        pull_request: { number: 7, url: "https://github.com/acme/api/pull/7", owner: acme, repo: api }
+        copied_files: [.env]
+        linkedFiles: [.npmrc]
+  - not an issue
+`);
+
+    const [loaded, ...rest] = new StateManager(configDir).loadIssues('web');
+
+    assert.strictEqual(rest.length, 0);
+    assert.strictEqual(loaded.projectId, 'web');
+    assert.strictEqual(loaded.workspaceDir, '/ws/web/SHOP-1');
+    assert.deepStrictEqual(loaded.repos, [{
+      name: 'api',
+      branch: 'feature/SHOP-1',
+      worktreePath: '/ws/web/SHOP-1/api',
+      created: false,
+      pushed: true,
+      pullRequest: { number: 7, url: 'https://github.com/acme/api/pull/7', owner: 'acme', repo: 'api' },
+      baseRef: 'origin/main',
+      baseBranch: undefined,
+      copiedFiles: ['.env'],
+      linkedFiles: ['.npmrc']
+    }]);
+  });
+});
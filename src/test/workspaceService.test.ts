@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { WorkspaceService } from '../services/workspaceService';
+import { RepoState, WorkspaceTemplate } from '../models/types';
+
+const service = new WorkspaceService();
+
+function repo(name: string): RepoState {
+  return {
+    name,
+    branch: 'feature/SHOP-1',
+    worktreePath: `/ws/web/SHOP-1/${name}`,
+    created: true,
+    pushed: false
+  };
+}
+
+const template: WorkspaceTemplate = {
+  settings: {
+    'api.root': '${repo:api}/src',
+    'front.root': '${repo:front}/src'
+  },
+  extensions: ['dbaeumer.vscode-eslint'],
+  launch: {
+    configurations: [
+      { name: 'API', cwd: '${repo:api}' },
+      { name: 'Front', cwd: '${repo:front}' }
+    ],
+    compounds: [{ name: 'All', configurations: ['API', 'Front'] }]
+  },
+  tasks: [{ label: 'build api', command: 'npm run build', options: { cwd: '${repo:api}' } }]
+};
+
+suite('WorkspaceService template resolution', () => {
+  test('resolves repo placeholders and leaves out entries of repos outside the issue', () => {
+    const workspace = service.buildWorkspace('/ws/web/SHOP-1', [repo('api')], template, undefined);
+
+    assert.deepStrictEqual(workspace.folders.map(folder => folder.path), ['.', './api']);
+    assert.strictEqual(workspace.settings?.['api.root'], '/ws/web/SHOP-1/api/src');
+    assert.ok(!('front.root' in (workspace.settings || {})));
+    assert.deepStrictEqual(workspace.launch?.configurations, [{ name: 'API', cwd: '/ws/web/SHOP-1/api' }]);
+    assert.deepStrictEqual(workspace.launch?.compounds, [{ name: 'All', configurations: ['API'] }]);
+    assert.deepStrictEqual(workspace.tasks?.tasks?.[0].options, { cwd: '/ws/web/SHOP-1/api' });
+  });
+});
+
+suite('WorkspaceService settings merge', () => {
+  test('hand settings override the defaults and template settings override both', () => {
+    const workspace = service.buildWorkspace('/ws/web/SHOP-1', [repo('api')], template, {
+      folders: [],
+      settings: {
+        'files.exclude': { '**/node_modules': true },
+        'api.root': '/elsewhere',
+        'editor.tabSize': 4
+      }
+    });
+
+    assert.deepStrictEqual(workspace.settings, {
+      'files.exclude': { '**/node_modules': true },
+      'api.root': '/ws/web/SHOP-1/api/src',
+      'editor.tabSize': 4
+    });
+  });
+
+  test('drops entries removed from the template and keeps the ones added by hand', () => {
+    const first = service.buildWorkspace('/ws/web/SHOP-1', [repo('api')], template, undefined);
+    first.settings = { ...first.settings, 'editor.tabSize': 4 };
+    first.launch?.configurations?.push({ name: 'Debug by hand' });
+    first.tasks?.tasks?.push({ label: 'lint by hand' });
+
+    const workspace = service.buildWorkspace('/ws/web/SHOP-1', [repo('api')], { extensions: template.extensions }, first);
+
+    assert.deepStrictEqual(workspace.settings, { 'files.exclude': { '**/.git': true }, 'editor.tabSize': 4 });
+    assert.deepStrictEqual(workspace.extensions?.recommendations, ['dbaeumer.vscode-eslint']);
+    assert.deepStrictEqual(workspace.launch?.configurations, [{ name: 'Debug by hand' }]);
+    assert.strictEqual(workspace.launch?.compounds, undefined);
+    assert.deepStrictEqual(workspace.tasks?.tasks, [{ label: 'lint by hand' }]);
+  });
+});
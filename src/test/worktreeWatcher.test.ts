@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { isWatchedGitPath } from '../services/worktreeWatcher';
+import { GitService } from '../services/gitService';
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: 'test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'test',
+  GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', args, { cwd, env: GIT_ENV, stdio: 'ignore' });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Collect the paths (relative to gitDir) changed in some of its directories while action runs
+ */
+async function recordGitDirChanges(gitDir: string, dirs: string[], action: () => Promise<unknown>): Promise<string[]> {
+  const changes: string[] = [];
+  const watchers = dirs.map(dir => fs.watch(path.join(gitDir, dir), (_event, fileName) => {
+    if (fileName) {
+      changes.push(path.join(dir, fileName.toString()));
+    }
+  }));
+
+  try {
+    await action();
+    await sleep(200); // Let pending events arrive
+  } finally {
+    watchers.forEach(watcher => watcher.close());
+  }
+
+  return changes;
+}
+
+suite('isWatchedGitPath', () => {
+  test('watches branch, staging and operation metadata', () => {
+    for (const relativePath of [
+      'HEAD',
+      'index',
+      'MERGE_HEAD',
+      'rebase-merge',
+      'packed-refs',
+      'refs/heads/feature/SHOP-1',
+      'worktrees/SHOP-1/HEAD',
+      'worktrees/SHOP-1/index',
+      'worktrees/SHOP-1/CHERRY_PICK_HEAD'
+    ]) {
+      assert.ok(isWatchedGitPath(relativePath), relativePath);
+    }
+  });
+
+  test('ignores lock files and other git dir contents', () => {
+    for (const relativePath of [
+      'index.lock',
+      'worktrees/SHOP-1/index.lock',
+      'refs/heads/feature/SHOP-1.lock',
+      'objects/ab/cdef',
+      'logs/HEAD',
+      'worktrees/SHOP-1/logs/HEAD',
+      'worktrees/SHOP-1/gitdir',
+      'config'
+    ]) {
+      assert.ok(!isWatchedGitPath(relativePath), relativePath);
+    }
+  });
+});
+
+suite('worktree status and the watcher', function () {
+  this.timeout(20000);
+
+  let tempDir: string;
+  let repoPath: string;
+  let worktreePath: string;
+  const gitService = new GitService();
+
+  setup(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mrm-watcher-'));
+    repoPath = path.join(tempDir, 'repo');
+    worktreePath = path.join(tempDir, 'SHOP-1');
+
+    fs.mkdirSync(repoPath);
+    git(repoPath, 'init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(repoPath, 'README.md'), 'readme\n');
+    git(repoPath, 'add', '-A');
+    git(repoPath, 'commit', '-q', '-m', 'initial');
+    git(repoPath, 'worktree', 'add', '-q', worktreePath, '-b', 'feature/SHOP-1');
+
+    // git status refreshes racily clean index entries once; let that settle first
+    await gitService.getWorktreeStatus(worktreePath, 'main');
+    await sleep(1100);
+    await gitService.getWorktreeStatus(worktreePath, 'main');
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('an unchanged worktree produces no event', async () => {
+    const changes = await recordGitDirChanges(path.join(repoPath, '.git'), ['.', 'worktrees/SHOP-1'], async () => {
+      await gitService.getWorktreeStatus(worktreePath, 'main');
+      await gitService.getWorktreeStatus(worktreePath, 'main');
+    });
+
+    assert.ok(changes.length > 0, 'git status wrote nothing; the test cannot tell lock files apart');
+    assert.deepStrictEqual(changes.filter(isWatchedGitPath), []);
+  });
+
+  test('staging a file produces an event', async () => {
+    fs.writeFileSync(path.join(worktreePath, 'change.txt'), 'change\n');
+
+    const changes = await recordGitDirChanges(path.join(repoPath, '.git'), ['.', 'worktrees/SHOP-1'], async () => {
+      git(worktreePath, 'add', 'change.txt');
+    });
+
+    assert.ok(changes.some(isWatchedGitPath), `no watched change in: ${changes.join(', ')}`);
+  });
+});
@@ -0,0 +1,610 @@
+/**
+ * Webview for issue detail - editable metadata, live repo state and actions
+ * One panel per issue; repo state is re-rendered when worktrees, PR status or issue data change
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ConfigManager } from '../config/configManager';
+import { StateManager } from '../services/stateManager';
+import { IssueService } from '../services/issueService';
+import { PRStatusPoller } from '../services/prStatusPoller';
+import { GitService, resolveBaseRef } from '../services/gitService';
+import { Issue, Project, PullRequestStatus, RepoState, WorktreeStatus } from '../models/types';
+
+export interface IssueDetailContext {
+  configManager: ConfigManager;
+  stateManager: StateManager;
+  issueService: IssueService;
+  prStatusPoller: PRStatusPoller;
+  refreshEvents: vscode.Event<unknown>[]; // Re-render when any of these fire
+  onChanged: () => void; // Called after the panel changed the issue
+}
+
+/**
+ * Message posted by the webview script
+ */
+interface PanelMessage {
+  command: string;
+  repoName?: string;
+  url?: string;
+  metadata?: Record<string, string | undefined>;
+}
+
+interface RepoDetail {
+  repoState: RepoState;
+  baseRef: string;
+  worktreeExists: boolean;
+  status?: WorktreeStatus;
+  prStatus?: PullRequestStatus;
+  error?: string;
+}
+
+export class IssueDetailPanel {
+  private static panels = new Map<string, IssueDetailPanel>();
+
+  private gitService: GitService;
+  private disposables: vscode.Disposable[] = [];
+  private renderVersion = 0;
+
+  /**
+   * Show the detail panel of an issue (reuses an open panel)
+   */
+  static show(project: Project, issueId: string, context: IssueDetailContext): void {
+    const key = `${project.id}/${issueId}`;
+    const existing = IssueDetailPanel.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      existing.update();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'issueDetail',
+      `Issue: ${issueId}`,
+      vscode.ViewColumn.One,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true
+      }
+    );
+
+    IssueDetailPanel.panels.set(key, new IssueDetailPanel(panel, project, issueId, context));
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly project: Project,
+    private readonly issueId: string,
+    private readonly context: IssueDetailContext
+  ) {
+    this.gitService = new GitService();
+
+    this.panel.webview.html = this.getHtml(crypto.randomBytes(16).toString('base64'));
+    this.panel.onDidDispose(() => this.dispose(), undefined, this.disposables);
+    this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.handleMessage(message), undefined, this.disposables);
+
+    for (const event of context.refreshEvents) {
+      this.disposables.push(event(() => this.update()));
+    }
+  }
+
+  /**
+   * Re-render metadata and repo state (out-of-order renders are dropped)
+   */
+  private async update(): Promise<void> {
+    const version = ++this.renderVersion;
+    const issue = this.context.stateManager.getIssue(this.project.id, this.issueId);
+
+    if (!issue) {
+      this.panel.webview.postMessage({
+        type: 'update',
+        missing: true,
+        metaHtml: `<p>Issue ${escapeHtml(this.issueId)} no longer exists (deleted or archived).</p>`,
+        reposHtml: ''
+      });
+      return;
+    }
+
+    const details = await this.getRepoDetails(issue);
+    if (version !== this.renderVersion) {
+      return;
+    }
+
+    this.panel.title = `Issue: ${issue.id}`;
+    this.panel.webview.postMessage({
+      type: 'update',
+      missing: false,
+      metadata: {
+        title: issue.title || '',
+        description: issue.description || '',
+        labels: (issue.labels || []).join(', '),
+        assignee: issue.assignee || '',
+        trackerUrl: issue.trackerUrl || '',
+        notes: issue.notes || ''
+      },
+      metaHtml: this.getMetaHtml(issue),
+      reposHtml: this.getReposHtml(details)
+    });
+  }
+
+  private async getRepoDetails(issue: Issue): Promise<RepoDetail[]> {
+    return Promise.all(issue.repos.map(async repoState => {
+      const repo = this.project.repositories.find(r => r.name === repoState.name);
+      const detail: RepoDetail = {
+        repoState,
+        baseRef: repo ? resolveBaseRef(repo, repoState) : '',
+        worktreeExists: false,
+        prStatus: repoState.pullRequest ? this.context.prStatusPoller.getStatus(repoState.pullRequest) : undefined
+      };
+
+      if (!repo) {
+        detail.error = 'Repository not in project';
+        return detail;
+      }
+
+      try {
+        detail.worktreeExists = await this.gitService.worktreeExists(repoState.worktreePath);
+        if (detail.worktreeExists) {
+          detail.status = await this.gitService.getWorktreeStatus(repoState.worktreePath, detail.baseRef);
+        }
+      } catch (error) {
+        detail.error = `${error}`;
+      }
+
+      return detail;
+    }));
+  }
+
+  private async handleMessage(message: PanelMessage): Promise<void> {
+    // The webview asks for its first render once its script is listening
+    if (message.command === 'ready' || message.command === 'refresh') {
+      this.update();
+      return;
+    }
+
+    const issue = this.context.stateManager.getIssue(this.project.id, this.issueId);
+    if (!issue) {
+      vscode.window.showErrorMessage(`Issue not found: ${this.issueId}`);
+      return;
+    }
+
+    const repoState = message.repoName ? issue.repos.find(r => r.name === message.repoName) : undefined;
+    const item = { issue, project: this.project, repoName: repoState?.name };
+
+    try {
+      switch (message.command) {
+        case 'saveMetadata': {
+          const metadata = message.metadata || {};
+          await this.context.issueService.updateIssueMetadata(this.project.id, issue.id, {
+            title: metadata.title,
+            description: metadata.description,
+            labels: String(metadata.labels ?? '').split(','),
+            assignee: metadata.assignee,
+            trackerUrl: metadata.trackerUrl,
+            notes: metadata.notes
+          });
+          this.context.onChanged();
+          this.update();
+          vscode.window.showInformationMessage(`Issue ${issue.id} updated`);
+          break;
+        }
+
+        case 'openWorkspace':
+          await vscode.commands.executeCommand('mrm.openWorkspace', item);
+          break;
+
+        case 'openWorktree':
+          if (repoState) {
+            await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(repoState.worktreePath), { forceNewWindow: true });
+          }
+          break;
+
+        case 'openTerminal':
+          if (repoState) {
+            vscode.window.createTerminal({ name: `${issue.id}/${repoState.name}`, cwd: repoState.worktreePath }).show();
+          }
+          break;
+
+        case 'sync':
+          await vscode.commands.executeCommand('mrm.syncIssue', item);
+          this.update();
+          break;
+
+        case 'push':
+          await vscode.commands.executeCommand('mrm.pushAll', item);
+          this.update();
+          break;
+
+        case 'openUrl': {
+          // Links come from issue data (tracker URL, PR URLs); never open other schemes
+          const uri = vscode.Uri.parse(String(message.url));
+          if (uri.scheme === 'http' || uri.scheme === 'https') {
+            await vscode.env.openExternal(uri);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to ${message.command}: ${error}`);
+    }
+  }
+
+  private getMetaHtml(issue: Issue): string {
+    const rows: Array<[string, string]> = [
+      ['Issue ID', `<code>${escapeHtml(issue.id)}</code>`],
+      ['Project', escapeHtml(this.project.name)],
+      ['Status', `<span class="badge status-${issue.status}">${escapeHtml(issue.status)}</span>`]
+    ];
+
+    if (issue.trackerUrl) {
+      rows.push(['Tracker', `<a href="#" data-url="${escapeHtml(issue.trackerUrl)}">${escapeHtml(issue.trackerUrl)}</a>`]);
+    }
+    if (issue.labels && issue.labels.length > 0) {
+      rows.push(['Labels', issue.labels.map(label => `<span class="chip">${escapeHtml(label)}</span>`).join(' ')]);
+    }
+    if (issue.assignee) {
+      rows.push(['Assignee', escapeHtml(issue.assignee)]);
+    }
+    rows.push(
+      ['Workspace', `<code>${escapeHtml(issue.workspaceDir)}</code>`],
+      ['Created', escapeHtml(new Date(issue.createdAt).toLocaleString())],
+      ['Updated', escapeHtml(new Date(issue.updatedAt).toLocaleString())]
+    );
+
+    return rows.map(([label, value]) => `
+      <div class="info-label">${label}:</div>
+      <div class="info-value">${value}</div>
+    `).join('');
+  }
+
+  private getReposHtml(details: RepoDetail[]): string {
+    if (details.length === 0) {
+      return '<tr><td colspan="8" class="muted">No repositories</td></tr>';
+    }
+
+    return details.map(detail => {
+      const { repoState, status, prStatus } = detail;
+      const name = escapeHtml(repoState.name);
+      const disabled = detail.worktreeExists ? '' : 'disabled';
+
+      let changes: string;
+      let upstream: string;
+      let base: string;
+      if (status) {
+        const parts = [
+          status.operation ? `<span class="warn">⚠ ${escapeHtml(status.operation)} in progress</span>` : '',
+          status.conflicted > 0 ? `<span class="warn">!${status.conflicted} conflicted</span>` : '',
+          status.staged > 0 ? `+${status.staged} staged` : '',
+          status.modified > 0 ? `~${status.modified} modified` : '',
+          status.untracked > 0 ? `?${status.untracked} untracked` : ''
+        ].filter(Boolean);
+        changes = parts.length > 0 ? parts.join('<br>') : '<span class="ok">clean</span>';
+        upstream = status.upstream
+          ? `↑${status.ahead} ↓${status.behind}<br><span class="muted">${escapeHtml(status.upstream)}</span>`
+          : '<span class="muted">unpublished</span>';
+        base = `↑${status.baseAhead} ↓${status.baseBehind}`;
+      } else {
+        changes = `<span class="muted">${escapeHtml(detail.error || 'worktree missing')}</span>`;
+        upstream = repoState.pushed ? '✓ pushed' : '-';
+        base = '-';
+      }
+
+      const pr = repoState.pullRequest;
+      const prHtml = pr
+        ? `<a href="#" data-url="${escapeHtml(pr.url)}">#${pr.number}</a>${prStatus ? ` <span class="muted">${escapeHtml(prStatus.state)}</span>` : ''}`
+        : '<span class="muted">-</span>';
+      const ciHtml = prStatus
+        ? `${escapeHtml(prStatus.checks)}${prStatus.reviewDecision ? `<br><span class="muted">${escapeHtml(prStatus.reviewDecision.replace('_', ' ').toLowerCase())}</span>` : ''}`
+        : '<span class="muted">-</span>';
+
+      return `
+        <tr>
+          <td><strong>${name}</strong></td>
+          <td><code>${escapeHtml(repoState.branch)}</code></td>
+          <td><code>${escapeHtml(detail.baseRef)}</code><br>${base}</td>
+          <td>${changes}</td>
+          <td>${upstream}</td>
+          <td>${prHtml}</td>
+          <td>${ciHtml}</td>
+          <td class="actions">
+            <button class="btn-small" data-command="openWorktree" data-repo="${name}" ${disabled}>Open</button>
+            <button class="btn-small" data-command="openTerminal" data-repo="${name}" ${disabled}>Terminal</button>
+            <button class="btn-small" data-command="sync" data-repo="${name}" ${disabled}>Sync</button>
+            <button class="btn-small" data-command="push" data-repo="${name}" ${disabled}>Push</button>
+          </td>
+        </tr>
+      `;
+    }).join('');
+  }
+
+  private getHtml(nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this.panel.webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Issue Detail</title>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+      padding: 20px;
+      line-height: 1.6;
+    }
+
+    h1 {
+      border-bottom: 2px solid var(--vscode-panel-border);
+      padding-bottom: 10px;
+      margin-bottom: 20px;
+    }
+
+    h2 {
+      margin-top: 30px;
+      margin-bottom: 15px;
+      font-size: 1.3em;
+    }
+
+    .info-grid {
+      display: grid;
+      grid-template-columns: 150px 1fr;
+      gap: 10px;
+    }
+
+    .info-label {
+      color: var(--vscode-descriptionForeground);
+      font-weight: bold;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    th {
+      background-color: var(--vscode-editor-inactiveSelectionBackground);
+      padding: 8px;
+      text-align: left;
+      border-bottom: 2px solid var(--vscode-panel-border);
+    }
+
+    td {
+      padding: 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      vertical-align: top;
+    }
+
+    code {
+      background-color: var(--vscode-textCodeBlock-background);
+      color: var(--vscode-textPreformat-foreground);
+      padding: 2px 6px;
+      border-radius: 3px;
+      font-family: var(--vscode-editor-font-family);
+      font-size: 0.9em;
+    }
+
+    a {
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .badge, .chip {
+      background-color: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+      padding: 2px 8px;
+      border-radius: 12px;
+      font-size: 0.85em;
+    }
+
+    .muted {
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .ok {
+      color: var(--vscode-testing-iconPassed);
+    }
+
+    .warn {
+      color: var(--vscode-editorWarning-foreground);
+    }
+
+    input[type="text"], textarea {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 8px;
+      background-color: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border);
+      border-radius: 3px;
+      font-family: var(--vscode-font-family);
+      font-size: var(--vscode-font-size);
+    }
+
+    textarea {
+      min-height: 100px;
+      resize: vertical;
+    }
+
+    .form-grid {
+      display: grid;
+      grid-template-columns: 150px 1fr;
+      gap: 10px;
+      align-items: start;
+    }
+
+    button {
+      background-color: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      padding: 6px 14px;
+      border-radius: 3px;
+      cursor: pointer;
+      font-family: var(--vscode-font-family);
+    }
+
+    button:hover {
+      background-color: var(--vscode-button-hoverBackground);
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .btn-small {
+      padding: 2px 8px;
+      margin: 0 2px 4px 0;
+      background-color: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+
+    .toolbar {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 20px;
+    }
+
+    .missing .editable {
+      display: none;
+    }
+  </style>
+</head>
+<body>
+  <h1><span id="heading">${escapeHtml(this.issueId)}</span></h1>
+
+  <div class="toolbar editable">
+    <button data-command="openWorkspace">Open Workspace</button>
+    <button class="btn-small" data-command="sync">Sync All</button>
+    <button class="btn-small" data-command="push">Push All</button>
+    <button class="btn-small" data-command="refresh">Refresh</button>
+  </div>
+
+  <div class="info-grid" id="meta"></div>
+
+  <div class="editable">
+    <h2>Details</h2>
+    <div class="form-grid">
+      <label class="info-label" for="title">Title:</label>
+      <input type="text" id="title">
+
+      <label class="info-label" for="description">Description:</label>
+      <textarea id="description"></textarea>
+
+      <label class="info-label" for="labels">Labels:</label>
+      <input type="text" id="labels" placeholder="Comma-separated, e.g., bug, backend">
+
+      <label class="info-label" for="assignee">Assignee:</label>
+      <input type="text" id="assignee">
+
+      <label class="info-label" for="trackerUrl">Tracker URL:</label>
+      <input type="text" id="trackerUrl" placeholder="https://...">
+
+      <label class="info-label" for="notes">Notes:</label>
+      <textarea id="notes"></textarea>
+
+      <div></div>
+      <div><button id="save" disabled>Save</button></div>
+    </div>
+
+    <h2>Repositories</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Repository</th>
+          <th>Branch</th>
+          <th>Base</th>
+          <th>Changes</th>
+          <th>Upstream</th>
+          <th>PR</th>
+          <th>CI / Review</th>
+          <th>Actions</th>
+        </tr>
+      </thead>
+      <tbody id="repos"></tbody>
+    </table>
+  </div>
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const fields = ['title', 'description', 'labels', 'assignee', 'trackerUrl', 'notes'];
+    const save = document.getElementById('save');
+    let saved = {};
+
+    function current() {
+      return Object.fromEntries(fields.map(field => [field, document.getElementById(field).value]));
+    }
+
+    // Keep unsaved edits when repo state is re-rendered
+    function isEdited() {
+      const values = current();
+      return fields.some(field => values[field] !== (saved[field] || ''));
+    }
+
+    for (const field of fields) {
+      document.getElementById(field).addEventListener('input', () => { save.disabled = !isEdited(); });
+    }
+    save.addEventListener('click', () => {
+      vscode.postMessage({ command: 'saveMetadata', metadata: current() });
+      save.disabled = true;
+    });
+
+    document.addEventListener('click', event => {
+      const target = event.target.closest('[data-command], [data-url]');
+      if (!target || target.disabled) {
+        return;
+      }
+      event.preventDefault();
+      if (target.dataset.url) {
+        vscode.postMessage({ command: 'openUrl', url: target.dataset.url });
+      } else {
+        vscode.postMessage({ command: target.dataset.command, repoName: target.dataset.repo });
+      }
+    });
+
+    window.addEventListener('message', event => {
+      const message = event.data;
+      if (message.type !== 'update') {
+        return;
+      }
+
+      document.body.classList.toggle('missing', message.missing);
+      document.getElementById('meta').innerHTML = message.metaHtml;
+      document.getElementById('repos').innerHTML = message.reposHtml;
+
+      if (!message.missing) {
+        const edited = isEdited();
+        saved = message.metadata;
+        if (!edited) {
+          for (const field of fields) {
+            document.getElementById(field).value = saved[field];
+          }
+        }
+        save.disabled = !isEdited();
+      }
+    });
+
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>`;
+  }
+
+  private dispose(): void {
+    IssueDetailPanel.panels.delete(`${this.project.id}/${this.issueId}`);
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -5,14 +5,64 @@
 import * as vscode from 'vscode';
 import { ConfigManager } from '../config/configManager';
 import { StateManager } from '../services/stateManager';
-import { Project, Issue } from '../models/types';
-
-type TreeNode = ProjectNode | IssueNode | RepoNode;
+import { PRStatusPoller } from '../services/prStatusPoller';
+import { GitService, resolveBaseRef } from '../services/gitService';
+import {
+  BrokenProject,
+  Project,
+  Issue,
+  IssueStatus,
+  IssueViewOptions,
+  PullRequestStatus,
+  WorktreeStatus
+} from '../models/types';
+
+type TreeNode =
+  | ProjectNode
+  | BrokenProjectNode
+  | IssueGroupNode
+  | IssueNode
+  | RepoNode
+  | ArchivedGroupNode
+  | ArchivedIssueNode;
+
+export const DEFAULT_VIEW_OPTIONS: IssueViewOptions = {
+  statuses: [],
+  search: '',
+  groupBy: 'none',
+  sortBy: 'file'
+};
+
+const STATUS_ORDER: IssueStatus[] = ['active', 'pr_created', 'merged', 'closed'];
+
+const STATUS_NAMES: Record<IssueStatus, string> = {
+  active: 'Active',
+  pr_created: 'PR Created',
+  merged: 'Merged',
+  closed: 'Closed'
+};
+
+const DATE_GROUPS = ['Today', 'Yesterday', 'Last 7 Days', 'Last 30 Days', 'Older'];
 
 class ProjectNode {
   constructor(
     public readonly project: Project,
-    public readonly issueCount: number
+    public readonly issueCount: number,
+    public readonly shownCount: number
+  ) {}
+}
+
+class IssueGroupNode {
+  constructor(
+    public readonly project: Project,
+    public readonly label: string,
+    public readonly issues: Issue[]
+  ) {}
+}
+
+class BrokenProjectNode {
+  constructor(
+    public readonly broken: BrokenProject
   ) {}
 }
 
@@ -23,24 +73,113 @@ class IssueNode {
   ) {}
 }
 
+class ArchivedGroupNode {
+  constructor(
+    public readonly project: Project,
+    public readonly issues: Issue[]
+  ) {}
+}
+
+class ArchivedIssueNode {
+  constructor(
+    public readonly issue: Issue,
+    public readonly project: Project
+  ) {}
+}
+
 class RepoNode {
   constructor(
     public readonly repoName: string,
     public readonly issue: Issue,
-    public readonly project: Project
+    public readonly project: Project,
+    public readonly worktreeStatus?: WorktreeStatus
   ) {}
 }
 
+/**
+ * Get the date group of a timestamp relative to now (calendar days)
+ */
+function getDateGroup(timestamp: string, now: Date): string {
+  const day = 24 * 60 * 60 * 1000;
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const time = new Date(timestamp).getTime();
+
+  if (isNaN(time)) {
+    return 'Older';
+  }
+  if (time >= startOfToday) {
+    return 'Today';
+  }
+  if (time >= startOfToday - day) {
+    return 'Yesterday';
+  }
+  if (time >= startOfToday - 6 * day) {
+    return 'Last 7 Days';
+  }
+  if (time >= startOfToday - 29 * day) {
+    return 'Last 30 Days';
+  }
+  return 'Older';
+}
+
+/**
+ * Format worktree status compactly, e.g. "+1 ~2 ?3 ↑1 ↓2 ⇣5 main"
+ */
+export function formatWorktreeStatus(status: WorktreeStatus): string {
+  const parts: string[] = [];
+
+  if (status.operation) {
+    parts.push(`⚠${status.operation}`);
+  }
+  if (status.conflicted > 0) {
+    parts.push(`!${status.conflicted}`);
+  }
+  if (status.staged > 0) {
+    parts.push(`+${status.staged}`);
+  }
+  if (status.modified > 0) {
+    parts.push(`~${status.modified}`);
+  }
+  if (status.untracked > 0) {
+    parts.push(`?${status.untracked}`);
+  }
+
+  if (!status.upstream) {
+    parts.push('unpublished');
+  } else if (status.ahead === 0 && status.behind === 0) {
+    parts.push('✓pushed');
+  } else {
+    if (status.ahead > 0) {
+      parts.push(`↑${status.ahead}`);
+    }
+    if (status.behind > 0) {
+      parts.push(`↓${status.behind}`);
+    }
+  }
+
+  if (status.baseBehind > 0) {
+    parts.push(`⇣${status.baseBehind} ${status.baseRef}`);
+  }
+
+  return parts.join(' ');
+}
+
 export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
   private _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined | null | void> =
     new vscode.EventEmitter<TreeNode | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined | null | void> =
     this._onDidChangeTreeData.event;
 
+  private gitService: GitService;
+  private viewOptions: IssueViewOptions = { ...DEFAULT_VIEW_OPTIONS };
+
   constructor(
     private configManager: ConfigManager,
-    private stateManager: StateManager
-  ) {}
+    private stateManager: StateManager,
+    private prStatusPoller?: PRStatusPoller
+  ) {
+    this.gitService = new GitService();
+  }
 
   /**
    * Refresh the tree view
@@ -49,16 +188,69 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Get current filter, grouping and sorting
+   */
+  getViewOptions(): IssueViewOptions {
+    return { ...this.viewOptions, statuses: [...this.viewOptions.statuses] };
+  }
+
+  /**
+   * Change filter, grouping and sorting and refresh the tree
+   */
+  setViewOptions(options: IssueViewOptions): void {
+    this.viewOptions = { ...options, statuses: [...options.statuses] };
+    this.refresh();
+  }
+
+  /**
+   * Check whether issues are filtered by status or search text
+   */
+  isFiltered(): boolean {
+    return this.viewOptions.statuses.length > 0 || this.viewOptions.search.trim() !== '';
+  }
+
+  /**
+   * Describe the view options for the view description (undefined if defaults)
+   */
+  describeViewOptions(): string | undefined {
+    const { statuses, search, groupBy, sortBy } = this.viewOptions;
+    const parts: string[] = [];
+
+    if (statuses.length > 0) {
+      parts.push(statuses.map(status => STATUS_NAMES[status]).join(', '));
+    }
+    if (search.trim()) {
+      parts.push(`"${search.trim()}"`);
+    }
+    if (groupBy !== 'none') {
+      parts.push(`by ${groupBy}`);
+    }
+    if (sortBy !== 'file') {
+      parts.push(`sorted by ${sortBy}`);
+    }
+
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+  }
+
   /**
    * Get tree item for display
    */
   getTreeItem(element: TreeNode): vscode.TreeItem {
     if (element instanceof ProjectNode) {
       return this.getProjectTreeItem(element);
+    } else if (element instanceof BrokenProjectNode) {
+      return this.getBrokenProjectTreeItem(element);
+    } else if (element instanceof IssueGroupNode) {
+      return this.getIssueGroupTreeItem(element);
     } else if (element instanceof IssueNode) {
       return this.getIssueTreeItem(element);
     } else if (element instanceof RepoNode) {
       return this.getRepoTreeItem(element);
+    } else if (element instanceof ArchivedGroupNode) {
+      return this.getArchivedGroupTreeItem(element);
+    } else if (element instanceof ArchivedIssueNode) {
+      return this.getArchivedIssueTreeItem(element);
     }
 
     return new vscode.TreeItem('Unknown');
@@ -69,18 +261,36 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
    */
   getChildren(element?: TreeNode): Thenable<TreeNode[]> {
     if (!element) {
-      // Root level: show all projects
-      return Promise.resolve(this.getProjects());
+      // Root level: show all projects, then project files that failed to load
+      return Promise.resolve([
+        ...this.getProjects(),
+        ...this.configManager.loadBrokenProjects().map(broken => new BrokenProjectNode(broken))
+      ]);
     }
 
     if (element instanceof ProjectNode) {
-      // Project level: show all issues
-      return Promise.resolve(this.getIssues(element.project));
+      // Project level: show matching issues (grouped if requested), then archived issues in a group
+      // Archived issues have no status, so a status filter hides them
+      const archived = this.viewOptions.statuses.length > 0
+        ? []
+        : this.stateManager.loadArchivedIssues(element.project.id).filter(issue => this.matchesSearch(issue));
+      return Promise.resolve([
+        ...this.getIssues(element.project),
+        ...(archived.length > 0 ? [new ArchivedGroupNode(element.project, archived)] : [])
+      ]);
+    }
+
+    if (element instanceof IssueGroupNode) {
+      return Promise.resolve(element.issues.map(issue => new IssueNode(issue, element.project)));
+    }
+
+    if (element instanceof ArchivedGroupNode) {
+      return Promise.resolve(element.issues.map(issue => new ArchivedIssueNode(issue, element.project)));
     }
 
     if (element instanceof IssueNode) {
       // Issue level: show all repos
-      return Promise.resolve(this.getRepos(element.issue, element.project));
+      return this.getRepos(element.issue, element.project);
     }
 
     return Promise.resolve([]);
@@ -95,36 +305,106 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
 
     for (const project of projects) {
       const issues = this.stateManager.loadIssues(project.id);
-      nodes.push(new ProjectNode(project, issues.length));
+      nodes.push(new ProjectNode(project, issues.length, this.filterIssues(issues).length));
     }
 
     return nodes;
   }
 
   /**
-   * Get all issues for a project
+   * Get the issues of a project matching the view options, sorted and grouped
+   */
+  private getIssues(project: Project): Array<IssueGroupNode | IssueNode> {
+    const issues = this.sortIssues(this.filterIssues(this.stateManager.loadIssues(project.id)));
+    const { groupBy } = this.viewOptions;
+
+    if (groupBy === 'none') {
+      return issues.map(issue => new IssueNode(issue, project));
+    }
+
+    const groups = new Map<string, Issue[]>();
+    const now = new Date();
+    for (const issue of issues) {
+      const label = groupBy === 'status'
+        ? STATUS_NAMES[issue.status]
+        : getDateGroup(groupBy === 'created' ? issue.createdAt : issue.updatedAt, now);
+      groups.set(label, [...(groups.get(label) || []), issue]);
+    }
+
+    const order = groupBy === 'status' ? STATUS_ORDER.map(status => STATUS_NAMES[status]) : DATE_GROUPS;
+    return order.flatMap(label => {
+      const groupIssues = groups.get(label);
+      return groupIssues ? [new IssueGroupNode(project, label, groupIssues)] : [];
+    });
+  }
+
+  private filterIssues(issues: Issue[]): Issue[] {
+    const { statuses } = this.viewOptions;
+    return issues.filter(issue =>
+      (statuses.length === 0 || statuses.includes(issue.status)) && this.matchesSearch(issue)
+    );
+  }
+
+  private matchesSearch(issue: Issue): boolean {
+    const search = this.viewOptions.search.trim().toLowerCase();
+    if (!search) {
+      return true;
+    }
+
+    return [issue.id, issue.title, issue.description]
+      .some(text => text !== undefined && text.toLowerCase().includes(search));
+  }
+
+  /**
+   * Sort issues (file order is kept for "file"; dates are newest first)
    */
-  private getIssues(project: Project): IssueNode[] {
-    const issues = this.stateManager.loadIssues(project.id);
-    return issues.map(issue => new IssueNode(issue, project));
+  private sortIssues(issues: Issue[]): Issue[] {
+    switch (this.viewOptions.sortBy) {
+      case 'updated':
+        return [...issues].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+      case 'created':
+        return [...issues].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      case 'id':
+        return [...issues].sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+      default:
+        return issues;
+    }
   }
 
   /**
    * Get all repos for an issue
    */
-  private getRepos(issue: Issue, project: Project): RepoNode[] {
+  private async getRepos(issue: Issue, project: Project): Promise<RepoNode[]> {
     if (!issue.repos || !Array.isArray(issue.repos)) {
       return [];
     }
-    return issue.repos.map(repo => new RepoNode(repo.name, issue, project));
+
+    return Promise.all(issue.repos.map(async repoState => {
+      const repo = project.repositories.find(r => r.name === repoState.name);
+      let worktreeStatus: WorktreeStatus | undefined;
+
+      try {
+        if (repo && await this.gitService.worktreeExists(repoState.worktreePath)) {
+          worktreeStatus = await this.gitService.getWorktreeStatus(
+            repoState.worktreePath,
+            resolveBaseRef(repo, repoState)
+          );
+        }
+      } catch (error) {
+        console.warn(`Failed to get status for ${repoState.worktreePath}: ${error}`);
+      }
+
+      return new RepoNode(repoState.name, issue, project, worktreeStatus);
+    }));
   }
 
   /**
    * Create tree item for project
    */
   private getProjectTreeItem(node: ProjectNode): vscode.TreeItem {
+    const count = this.isFiltered() ? `${node.shownCount}/${node.issueCount}` : `${node.issueCount}`;
     const item = new vscode.TreeItem(
-      `${node.project.name} (${node.issueCount} issues)`,
+      `${node.project.name} (${count} issues)`,
       vscode.TreeItemCollapsibleState.Collapsed
     );
 
@@ -135,6 +415,40 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     return item;
   }
 
+  /**
+   * Create tree item for a project file that failed to load
+   */
+  private getBrokenProjectTreeItem(node: BrokenProjectNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(node.broken.id, vscode.TreeItemCollapsibleState.None);
+
+    item.contextValue = 'brokenProject';
+    item.description = 'invalid project file';
+    item.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'));
+    item.tooltip = `${node.broken.filePath}\n${node.broken.error}`;
+    item.command = {
+      command: 'vscode.open',
+      title: 'Open Project File',
+      arguments: [vscode.Uri.file(node.broken.filePath)]
+    };
+
+    return item;
+  }
+
+  /**
+   * Create tree item for a status or date group of issues
+   */
+  private getIssueGroupTreeItem(node: IssueGroupNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      `${node.label} (${node.issues.length})`,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+
+    item.contextValue = 'issueGroup';
+    item.iconPath = new vscode.ThemeIcon(this.viewOptions.groupBy === 'status' ? 'list-tree' : 'calendar');
+
+    return item;
+  }
+
   /**
    * Create tree item for issue
    */
@@ -148,7 +462,8 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
       vscode.TreeItemCollapsibleState.Collapsed
     );
 
-    item.contextValue = 'issue';
+    // issue-{status} drives which status commands the context menu offers
+    item.contextValue = `issue-${node.issue.status}`;
     item.description = this.getIssueStatusLabel(node.issue.status);
 
     // Set icon based on status
@@ -172,6 +487,47 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     return item;
   }
 
+  /**
+   * Create tree item for the archived issues group of a project
+   */
+  private getArchivedGroupTreeItem(node: ArchivedGroupNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      `Archived (${node.issues.length})`,
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+
+    item.contextValue = 'archivedGroup';
+    item.iconPath = new vscode.ThemeIcon('archive');
+    item.tooltip = `Archived issues of ${node.project.name}`;
+
+    return item;
+  }
+
+  /**
+   * Create tree item for an archived issue
+   */
+  private getArchivedIssueTreeItem(node: ArchivedIssueNode): vscode.TreeItem {
+    const label = node.issue.title
+      ? `${node.issue.id} - ${node.issue.title}`
+      : node.issue.id;
+
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+
+    item.contextValue = 'archivedIssue';
+    item.description = node.issue.archivedAt
+      ? `archived ${new Date(node.issue.archivedAt).toLocaleDateString()}`
+      : 'archived';
+    item.iconPath = new vscode.ThemeIcon('archive', new vscode.ThemeColor('charts.gray'));
+
+    const tooltipLines = [this.getIssueTooltip(node.issue)];
+    if (node.issue.archivedAt) {
+      tooltipLines.push(`Archived: ${new Date(node.issue.archivedAt).toLocaleString()}`);
+    }
+    item.tooltip = tooltipLines.join('\n');
+
+    return item;
+  }
+
   /**
    * Create tree item for repo
    */
@@ -186,14 +542,113 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeNode> {
       vscode.TreeItemCollapsibleState.None
     );
 
-    item.contextValue = 'repo';
-    item.description = `${repoState.branch}${repoState.pushed ? ' ✓pushed' : ''}`;
-    item.iconPath = new vscode.ThemeIcon('repo');
-    item.tooltip = `Branch: ${repoState.branch}\nPath: ${repoState.worktreePath}`;
+    const pr = repoState.pullRequest;
+    const prStatus = pr ? this.prStatusPoller?.getStatus(pr) : undefined;
+
+    const status = node.worktreeStatus;
+
+    // repo-rebase / repo-merge / repo-cherry-pick enable continue/abort menus
+    item.contextValue = status?.operation ? `repo-${status.operation}` : 'repo';
+    const descriptionParts = [repoState.branch];
+    if (status) {
+      descriptionParts.push(formatWorktreeStatus(status));
+    } else if (repoState.pushed) {
+      descriptionParts.push('✓pushed');
+    }
+    if (pr) {
+      descriptionParts.push(`PR#${pr.number}${prStatus ? ` ${this.getPRStatusSymbol(prStatus)}` : ''}`);
+    }
+    item.description = descriptionParts.join(' ');
+
+    item.iconPath = status && (status.operation || status.conflicted > 0)
+      ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.orange'))
+      : this.getRepoIcon(prStatus);
+
+    const tooltipLines = [
+      `Branch: ${repoState.branch}`,
+      `Path: ${repoState.worktreePath}`
+    ];
+    if (status) {
+      if (status.operation) {
+        tooltipLines.push(`In progress: ${status.operation}`);
+      }
+      tooltipLines.push(
+        `Changes: ${status.staged} staged, ${status.modified} modified, ${status.untracked} untracked, ${status.conflicted} conflicted`,
+        status.upstream
+          ? `Upstream: ${status.upstream} (↑${status.ahead} ↓${status.behind})`
+          : 'Upstream: not published',
+        `Base: ${status.baseRef} (↑${status.baseAhead} ↓${status.baseBehind})`
+      );
+    } else {
+      tooltipLines.push('Status: unavailable');
+    }
+    if (pr) {
+      tooltipLines.push(`PR: ${pr.owner}/${pr.repo}#${pr.number} (${pr.url})`);
+    }
+    if (prStatus) {
+      tooltipLines.push(`PR state: ${prStatus.state}`);
+      if (prStatus.reviewDecision) {
+        tooltipLines.push(`Review: ${prStatus.reviewDecision.replace('_', ' ')}`);
+      }
+      tooltipLines.push(`Checks: ${prStatus.checks}`);
+    }
+    item.tooltip = tooltipLines.join('\n');
 
     return item;
   }
 
+  /**
+   * Get inline symbol for PR status (merged/closed state wins over CI)
+   */
+  private getPRStatusSymbol(status: PullRequestStatus): string {
+    switch (status.state) {
+      case 'merged':
+        return '🟣';
+      case 'closed':
+        return '⛔';
+    }
+
+    switch (status.checks) {
+      case 'success':
+        return '✅';
+      case 'failure':
+        return '❌';
+      case 'pending':
+        return '⏳';
+      default:
+        return status.state === 'draft' ? '📝' : '';
+    }
+  }
+
+  /**
+   * Get icon for repo based on PR status
+   */
+  private getRepoIcon(status?: PullRequestStatus): vscode.ThemeIcon {
+    if (!status) {
+      return new vscode.ThemeIcon('repo');
+    }
+
+    switch (status.state) {
+      case 'merged':
+        return new vscode.ThemeIcon('git-merge', new vscode.ThemeColor('charts.purple'));
+      case 'closed':
+        return new vscode.ThemeIcon('git-pull-request-closed', new vscode.ThemeColor('charts.red'));
+      case 'draft':
+        return new vscode.ThemeIcon('git-pull-request-draft', new vscode.ThemeColor('charts.gray'));
+    }
+
+    switch (status.checks) {
+      case 'success':
+        return new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor('charts.green'));
+      case 'failure':
+        return new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor('charts.red'));
+      case 'pending':
+        return new vscode.ThemeIcon('git-pull-request', new vscode.ThemeColor('charts.yellow'));
+      default:
+        return new vscode.ThemeIcon('git-pull-request');
+    }
+  }
+
   /**
    * Get status label for display
    */